@@ -1,6 +1,10 @@
+import type { TransformOptions } from "../../loader/transform.js";
+import type { RuntimeOptions } from "../../runtime/controller.js";
 import type { Context, SourceTextModuleOptions } from "node:vm";
 import * as assert from "node:assert/strict";
-import { SourceTextModule, createContext } from "node:vm";
+import Module from "node:module";
+import { fileURLToPath } from "node:url";
+import { SourceTextModule, SyntheticModule, createContext } from "node:vm";
 import * as jest from "@jest/globals";
 import { transformModuleSource } from "../../loader/transform.js";
 import * as adapter from "../../runtime/adapter.js";
@@ -36,15 +40,24 @@ class HotInstanceSourceModule extends SourceTextModule {
 	}
 }
 
+interface TestModuleOptions extends TransformOptions {
+	/** Source is the output of the loader, and isn't transformed again */
+	readonly loaded?: boolean;
+	/** URL of the module, for modules whose loaded source depends on it. Default: a unique `test:` URL */
+	readonly url?: string;
+}
+
 /** @internal */
 export class TestModule {
+	readonly url: string;
 	private environment: Environment | undefined;
 	private vm: HotInstanceSourceModule | undefined;
-	private readonly url = `test:///module${++count}`;
 
 	constructor(
 		private source: () => string,
+		private readonly options: TestModuleOptions = {},
 	) {
+		this.url = options.url ?? `test:///module${++count}`;
 		modules.set(this.url, this);
 	}
 
@@ -60,16 +73,17 @@ export class TestModule {
 		return instance.moduleNamespace()();
 	}
 
-	async dispatch() {
+	async dispatch(options: RuntimeOptions = {}) {
 		assert.equal(this.environment, undefined);
-		const context = createContext();
+		// `atob` is used by bytes modules from the loader
+		const context = createContext({ atob });
 		const environment: Partial<Environment> = {
 			context,
 			pending: [],
 			top: this,
 		};
 		// @ts-expect-error
-		environment.runtime = TestModule.makeRuntime(environment as Environment);
+		environment.runtime = TestModule.makeRuntime(environment as Environment, options);
 		const vm = this.instantiate(environment as Environment);
 		await this.linkAndEvaluate();
 		await vm.namespace.default().main();
@@ -104,8 +118,8 @@ export class TestModule {
 		if (this.vm === undefined) {
 			assert.ok(this.environment === undefined || this.environment === environment);
 			this.environment = environment;
-			const source =
-				transformModuleSource(this.url, {}, this.source(), undefined) +
+			const source = this.options.loaded === true ? this.source() :
+				transformModuleSource(this.url, {}, this.source(), undefined, "module", this.options) +
 				`export default function module() { return acquire(${JSON.stringify(this.url)}); }\n`;
 			return this.vm = new HotInstanceSourceModule(source, {
 				context: environment.context,
@@ -132,14 +146,14 @@ export class TestModule {
 		}
 	}
 
-	private static makeRuntime(environment: Environment) {
+	private static makeRuntime(environment: Environment, options: RuntimeOptions) {
 		return new SourceTextModule(
 			`const [ Jest, Adapter, Reloadable ] = await Promise.all([
 				import("@jest/globals"),
 				import("hot:test/adapter"),
 				import("hot:test/reloadable"),
 			]);
-			export const acquire = Reloadable.makeAcquire((specifier, assertions) => import(specifier, assertions));
+			export const acquire = Reloadable.makeAcquire(specifier => import(specifier), ${JSON.stringify(options)});
 			export const adapter = Adapter.adapter;
 			globalThis.expect = Jest.expect;\n`, {
 				context: environment.context,
@@ -159,12 +173,32 @@ export class TestModule {
 					const module = modules.get(moduleURL);
 					assert.ok(module !== undefined);
 					return module.instantiate(environment);
+				} else if (specifier.startsWith("file:")) {
+					return TestModule.makeCommonJSModule(environment, specifier);
 				} else {
 					throw new Error(`Unexpected specifier: ${specifier}`);
 				}
 		}
 	}
 
+	// jest's `require` has its own module registry, which doesn't record `children`. CommonJS
+	// modules are loaded by a real `Module` instead, so that `require.cache` is shared with the
+	// runtime.
+	private static makeCommonJSModule(this: void, environment: Environment, specifier: string) {
+		const url = new URL(specifier);
+		url.search = "";
+		const filename = fileURLToPath(url);
+		const parent = new Module(filename);
+		parent.filename = filename;
+		const exports = parent.require(filename) as Record<string, unknown>;
+		const names = [ "default", ...Object.keys(exports).filter(name => name !== "default") ];
+		return new SyntheticModule(names, function() {
+			for (const name of names) {
+				this.setExport(name, name === "default" ? exports : exports[name]);
+			}
+		}, { context: environment.context, identifier: specifier });
+	}
+
 	private static async dynamicImport(this: void, environment: Environment, specifier: string) {
 		switch (specifier) {
 			case "hot:test/adapter": return adapter;
@@ -180,6 +214,17 @@ export class TestModule {
 					const vm = module.instantiate(environment);
 					await module.linkAndEvaluate();
 					return vm;
+				} else if (specifier.startsWith("hot:reload?")) {
+					// File watcher update, which evaluates the current source of the module
+					const url = new URL(specifier);
+					const moduleURL = url.searchParams.get("url");
+					assert.ok(moduleURL !== null);
+					const module = modules.get(moduleURL);
+					assert.ok(module !== undefined);
+					module.vm = undefined;
+					const vm = module.instantiate(environment);
+					await module.linkAndEvaluate();
+					return vm;
 				} else {
 					throw new Error(`Unexpected specifier: ${specifier}`);
 				}
@@ -68,3 +68,31 @@ test("catch error from self-accept", async () => {
 	const result = await main.releaseUpdate();
 	expect(result?.type).toBe(UpdateStatus.success);
 });
+
+test("lazy imports are implicitly accepted", async () => {
+	const options = { acceptLazyImports: true };
+	const main = new TestModule(() =>
+		`import { value } from ${child};
+		globalThis.count = (globalThis.count ?? 0) + 1;
+		export const read = () => value;`, options);
+	const child = new TestModule(() => "export const value = 1;", options);
+	await main.dispatch();
+	child.update(() => "export const value = 2;");
+	const result = await main.releaseUpdate();
+	expect(result?.type).toBe(UpdateStatus.success);
+	expect(main.global.count).toBe(1);
+	expect((main.namespace.read as () => unknown)()).toBe(2);
+});
+
+test("eager imports are not implicitly accepted", async () => {
+	const options = { acceptLazyImports: true };
+	const main = new TestModule(() =>
+		`import { value } from ${child};
+		const read = () => value;
+		globalThis.value = read();`, options);
+	const child = new TestModule(() => "export const value = 1;", options);
+	await main.dispatch();
+	child.update(() => "export const value = 2;");
+	const result = await main.releaseUpdate();
+	expect(result?.type).toBe(UpdateStatus.unaccepted);
+});
@@ -0,0 +1,79 @@
+/* eslint-disable @typescript-eslint/restrict-template-expressions */
+import { expect, test } from "@jest/globals";
+import { UpdateStatus } from "../runtime/controller.js";
+import { TestModule } from "./__fixtures__/module.js";
+
+test("synchronous sibling evaluates while an async module awaits", async () => {
+	const main = new TestModule(() =>
+		`import ${async};
+		import ${sync};
+		globalThis.log.push("main");`);
+	const async = new TestModule(() =>
+		`globalThis.log = [ "async" ];
+		await null;
+		globalThis.log.push("async resumed");`);
+	const sync = new TestModule(() =>
+		'globalThis.log.push("sync");');
+	await main.dispatch();
+	expect(main.global.log).toEqual([ "async", "sync", "async resumed", "main" ]);
+});
+
+test("independent async modules evaluate concurrently", async () => {
+	const main = new TestModule(() =>
+		`import ${left};
+		import ${right};
+		globalThis.log.push("main");`);
+	const left = new TestModule(() =>
+		`globalThis.log = [ "left" ];
+		await null;
+		globalThis.log.push("left resumed");`);
+	const right = new TestModule(() =>
+		`globalThis.log.push("right");
+		await null;
+		globalThis.log.push("right resumed");`);
+	await main.dispatch();
+	expect(main.global.log).toEqual([ "left", "right", "left resumed", "right resumed", "main" ]);
+});
+
+test("rejected async dependency fails its importers", async () => {
+	const main = new TestModule(() =>
+		`import ${child};
+		globalThis.evaluated = true;`);
+	const child = new TestModule(() =>
+		`await null;
+		throw new Error("child");`);
+	await expect(main.dispatch()).rejects.toThrow("child");
+	expect(main.global.evaluated).toBe(undefined);
+});
+
+test("independent async modules are reloaded concurrently", async () => {
+	const main = new TestModule(() =>
+		`import ${left};
+		import ${right};
+		import.meta.hot.accept();
+		globalThis.log.push("main");`);
+	const left = new TestModule(() =>
+		`globalThis.log = [ "left" ];
+		await null;
+		globalThis.log.push("left resumed");`);
+	const right = new TestModule(() =>
+		`import.meta.hot.dispose(async () => {
+			await null;
+			await null;
+		});
+		globalThis.log.push("right");
+		await null;
+		globalThis.log.push("right resumed");`);
+	await main.dispatch();
+	left.update(() =>
+		`globalThis.log = [ "left 2" ];
+		await null;
+		globalThis.log.push("left 2 resumed");`);
+	right.update(() =>
+		`globalThis.log.push("right 2");
+		await null;
+		globalThis.log.push("right 2 resumed");`);
+	const result = await main.releaseUpdate();
+	expect(result?.type).toBe(UpdateStatus.success);
+	expect(main.global.log).toEqual([ "left 2", "right 2", "left 2 resumed", "right 2 resumed", "main" ]);
+});
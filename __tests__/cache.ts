@@ -0,0 +1,50 @@
+import * as fs from "node:fs/promises";
+import * as os from "node:os";
+import * as path from "node:path";
+import { pathToFileURL } from "node:url";
+import { expect, test } from "@jest/globals";
+import { makeCacheKey, makePluginsKey, makeTransformCache } from "../loader/cache.js";
+import { resolveCacheDirectory } from "../loader/config.js";
+
+const withDirectory = async (fn: (root: string) => Promise<void>) => {
+	const root = await fs.realpath(await fs.mkdtemp(path.join(os.tmpdir(), "dynohot-")));
+	try {
+		await fn(root);
+	} finally {
+		await fs.rm(root, { recursive: true });
+	}
+};
+
+const writePlugin = async (root: string, name: string, version: string) => {
+	const directory = path.join(root, "node_modules", name);
+	await fs.mkdir(directory, { recursive: true });
+	await fs.writeFile(path.join(directory, "package.json"), JSON.stringify({ name, version }));
+	await fs.writeFile(path.join(directory, "index.js"), "module.exports = () => ({ visitor: {} });");
+};
+
+test("cache hit and miss", () => withDirectory(async root => {
+	const cache = makeTransformCache(path.join(root, "cache"));
+	const key = makeCacheKey("file:///module.js", "export {};");
+	expect(await cache.get(key)).toBe(undefined);
+	await cache.set(key, "transformed");
+	expect(await cache.get(key)).toBe("transformed");
+	expect(await cache.get(makeCacheKey("file:///module.js", "export const value = 1;"))).toBe(undefined);
+}));
+
+test("upgrading a plugin invalidates the cache", () => withDirectory(async root => {
+	await writePlugin(root, "babel-plugin-example", "1.0.0");
+	const before = await makePluginsKey([ "example" ], root);
+	expect(before).toContain("babel-plugin-example@1.0.0");
+	await writePlugin(root, "babel-plugin-example", "1.1.0");
+	const after = await makePluginsKey([ [ "example", { option: true } ] ], root);
+	expect(after).toContain("babel-plugin-example@1.1.0");
+	expect(makeCacheKey(after)).not.toBe(makeCacheKey(before));
+}));
+
+test("cache is opt-in with function plugins", () => {
+	const url = String(pathToFileURL("/app/dynohot.config.js"));
+	const plugin = () => ({ visitor: {} });
+	expect(resolveCacheDirectory({ url, plugins: [ "example" ] })).toBe(path.resolve("/app/node_modules/.cache/dynohot"));
+	expect(resolveCacheDirectory({ url, plugins: [ [ plugin, {} ] ] })).toBe(undefined);
+	expect(resolveCacheDirectory({ url, plugins: [ plugin ], cache: true })).toBe(path.resolve("/app/node_modules/.cache/dynohot"));
+});
@@ -0,0 +1,114 @@
+/* eslint-disable @typescript-eslint/restrict-template-expressions */
+import * as fs from "node:fs/promises";
+import Module from "node:module";
+import * as os from "node:os";
+import * as path from "node:path";
+import { pathToFileURL } from "node:url";
+import { expect, jest, test } from "@jest/globals";
+
+// jest's `createRequire` has its own module registry, which doesn't record `children`. The real
+// `require.cache` is used instead, and modules are loaded by a real `Module`.
+const { _cache: cache } = Module as unknown as { _cache: NodeJS.Require["cache"] };
+jest.unstable_mockModule("node:module", () => ({ default: Module, createRequire: () => ({ cache }) }));
+
+// Files are changed by invoking the callbacks of their watchers
+const watchers = new Map<string, (() => void)[]>();
+jest.unstable_mockModule("../runtime/watcher.js", () => ({
+	FileWatcher: class {
+		watch(url: string, callback: () => void) {
+			const callbacks = watchers.get(url) ?? [];
+			callbacks.push(callback);
+			watchers.set(url, callbacks);
+			return () => callbacks.splice(callbacks.indexOf(callback), 1);
+		}
+	},
+}));
+const { commonjsDependencies, evictCommonJS } = await import("../runtime/commonjs.js");
+const { initialize, load } = await import("../loader/loader.js");
+const { TestModule } = await import("./__fixtures__/module.js");
+
+await initialize({ cache: false, commonjs: true });
+
+// Runs the loader's `load` hook for the CommonJS module at `url`
+const loadCommonJS = async (url: string, version?: string) => {
+	const params = new URLSearchParams([
+		[ "url", url ],
+		...version === undefined ? [] : [ [ "version", version ] ],
+	] as [ string, string ][]);
+	const result = await load(
+		`hot:module?${String(params)}`,
+		{ conditions: [], format: "commonjs", importAttributes: {} },
+		() => ({ format: "commonjs", source: "" }));
+	return String(result.source);
+};
+
+test("shared dependency evicts every module which requires it", async () => {
+	const root = await fs.realpath(await fs.mkdtemp(path.join(os.tmpdir(), "dynohot-")));
+	const filename = (name: string) => path.join(root, `${name}.cjs`);
+	try {
+		await fs.writeFile(filename("shared"), "module.exports = { value: 1 };");
+		await fs.writeFile(filename("left"), 'module.exports = { shared: require("./shared.cjs") };');
+		await fs.writeFile(filename("right"), 'module.exports = { shared: require("./shared.cjs") };');
+		const main = new Module(filename("main"));
+		main.filename = filename("main");
+		const require = (specifier: string) => main.require(specifier) as { shared: object };
+		const left = require(filename("left"));
+		const right = require(filename("right"));
+		expect(commonjsDependencies(String(pathToFileURL(filename("right"))))).toEqual(new Set([ filename("shared") ]));
+
+		// Both modules which require the shared module are evicted, so both controllers can reload
+		await fs.writeFile(filename("shared"), "module.exports = { value: 2 };");
+		const evicted = evictCommonJS(String(pathToFileURL(filename("shared"))));
+		expect(evicted).toEqual(new Set([ filename("shared"), filename("left"), filename("right") ]));
+		const nextLeft = require(filename("left"));
+		const nextRight = require(filename("right"));
+		expect(nextLeft).not.toBe(left);
+		expect(nextRight).not.toBe(right);
+		expect(nextLeft).toEqual({ shared: { value: 2 } });
+		expect(nextRight).toEqual({ shared: { value: 2 } });
+		// The new shared module is executed once, and used by both
+		expect(nextLeft.shared).toBe(nextRight.shared);
+	} finally {
+		evictCommonJS(String(pathToFileURL(filename("shared"))));
+		await fs.rm(root, { recursive: true });
+	}
+});
+
+test("shared dependency reloads every module which requires it", async () => {
+	const root = await fs.realpath(await fs.mkdtemp(path.join(os.tmpdir(), "dynohot-")));
+	const filename = (name: string) => path.join(root, `${name}.cjs`);
+	const url = (name: string) => String(pathToFileURL(filename(name)));
+	try {
+		await fs.writeFile(filename("shared"), "module.exports = { value: 1 };");
+		await fs.writeFile(filename("left"), 'exports.shared = require("./shared.cjs");');
+		await fs.writeFile(filename("right"), 'exports.shared = require("./shared.cjs");');
+		const main = new TestModule(() =>
+			`import { shared as left } from ${left};
+			import { shared as right } from ${right};
+			import.meta.hot.accept();
+			globalThis.left = left;
+			globalThis.right = right;`);
+		let leftSource = await loadCommonJS(url("left"));
+		let rightSource = await loadCommonJS(url("right"));
+		const left = new TestModule(() => leftSource, { loaded: true, url: url("left") });
+		const right = new TestModule(() => rightSource, { loaded: true, url: url("right") });
+		await main.dispatch();
+		expect(main.global.left).toEqual({ value: 1 });
+		expect(main.global.left).toBe(main.global.right);
+
+		// Only the watcher of one module fires, and the other is reloaded by its controller
+		await fs.writeFile(filename("shared"), "module.exports = { value: 2 };");
+		leftSource = await loadCommonJS(url("left"), "1");
+		rightSource = await loadCommonJS(url("right"), "1");
+		expect(leftSource).toContain("left.cjs?hot=1");
+		const callbacks = watchers.get(url("shared"));
+		expect(callbacks).toHaveLength(2);
+		callbacks![0]!();
+		await jest.runAllTimersAsync();
+		expect(main.global.left).toEqual({ value: 2 });
+		expect(main.global.left).toBe(main.global.right);
+	} finally {
+		evictCommonJS(url("shared"));
+		await fs.rm(root, { recursive: true });
+	}
+});
@@ -0,0 +1,61 @@
+import * as fs from "node:fs/promises";
+import * as os from "node:os";
+import * as path from "node:path";
+import { pathToFileURL } from "node:url";
+import { expect, test } from "@jest/globals";
+import { globToRegExp, makeFormatLookup, makeIgnorePredicate } from "../loader/config.js";
+
+test("glob patterns", () => {
+	expect(globToRegExp("/app/src/**").test("/app/src/deep/file.js")).toBe(true);
+	expect(globToRegExp("/app/src/*.js").test("/app/src/deep/file.js")).toBe(false);
+	expect(globToRegExp("/app/**/*.{js,ts}").test("/app/file.ts")).toBe(true);
+	expect(globToRegExp("/app/**/*.{js,ts}").test("/app/file.json")).toBe(false);
+	expect(globToRegExp("**/node_modules/**").test("/app/node_modules/dep/index.js")).toBe(true);
+	expect(globToRegExp("/app/file?.[jt]s").test("/app/file1.ts")).toBe(true);
+});
+
+test("include and exclude", () => {
+	const isIgnored = makeIgnorePredicate({
+		url: "file:///app/package.json",
+		include: [ "src/**" ],
+		exclude: [ "src/generated/**" ],
+	});
+	expect(isIgnored("file:///app/src/main.js")).toBe(false);
+	expect(isIgnored("file:///app/src/generated/schema.js")).toBe(true);
+	expect(isIgnored("file:///app/scripts/build.js")).toBe(true);
+	expect(isIgnored("file:///app/node_modules/dep/index.js")).toBe(true);
+});
+
+test("include roots are tested by real path", async () => {
+	const root = await fs.realpath(await fs.mkdtemp(path.join(os.tmpdir(), "dynohot-")));
+	try {
+		await fs.mkdir(path.join(root, "packages/workspace"), { recursive: true });
+		await fs.mkdir(path.join(root, "node_modules/third-party"), { recursive: true });
+		await fs.mkdir(path.join(root, "packages/..hidden"), { recursive: true });
+		await fs.writeFile(path.join(root, "packages/workspace/index.js"), "");
+		await fs.writeFile(path.join(root, "node_modules/third-party/index.js"), "");
+		await fs.writeFile(path.join(root, "packages/..hidden/index.js"), "");
+		await fs.symlink(path.join(root, "packages/workspace"), path.join(root, "node_modules/workspace"));
+		await fs.symlink(path.join(root, "packages/..hidden"), path.join(root, "node_modules/hidden"));
+		const isIgnored = makeIgnorePredicate({
+			url: String(pathToFileURL(path.join(root, "package.json"))),
+			includeRoots: [ "packages" ],
+		});
+		expect(isIgnored(String(pathToFileURL(path.join(root, "node_modules/workspace/index.js"))))).toBe(false);
+		expect(isIgnored(String(pathToFileURL(path.join(root, "node_modules/third-party/index.js"))))).toBe(true);
+		// A directory whose name starts with ".." is still within the root
+		expect(isIgnored(String(pathToFileURL(path.join(root, "node_modules/hidden/index.js"))))).toBe(false);
+	} finally {
+		await fs.rm(root, { recursive: true });
+	}
+});
+
+test("format handlers", () => {
+	const yaml = { extensions: [ ".yaml", ".yml" ], load: () => "" };
+	const graphql = { type: "graphql", load: () => "" };
+	const findFormat = makeFormatLookup({ formats: [ yaml, graphql ] });
+	expect(findFormat("file:///app/data.yml", {})).toBe(yaml);
+	expect(findFormat("file:///app/query.gql", { type: "graphql" })).toBe(graphql);
+	expect(findFormat("file:///app/data.yaml", { type: "json" })).toBe(undefined);
+	expect(findFormat("file:///app/main.js", {})).toBe(undefined);
+});
@@ -0,0 +1,44 @@
+/* eslint-disable @typescript-eslint/restrict-template-expressions */
+import { expect, test } from "@jest/globals";
+import { UpdateStatus } from "../runtime/controller.js";
+import { TestModule } from "./__fixtures__/module.js";
+
+test("deferred module is evaluated on first access", async () => {
+	const main = new TestModule(() =>
+		`import defer * as ns from ${child};
+		expect(globalThis.evaluated).toBe(undefined);
+		expect(ns.value).toBe(1);
+		expect(globalThis.evaluated).toBe(true);`);
+	const child = new TestModule(() =>
+		`import ${dependency};
+		globalThis.evaluated = true;
+		export const value = globalThis.dependency;`);
+	const dependency = new TestModule(() =>
+		"globalThis.dependency = 1;");
+	await main.dispatch();
+});
+
+test("unevaluated deferred module is updated without evaluation", async () => {
+	const main = new TestModule(() =>
+		`import defer * as ns from ${child};
+		globalThis.read = () => ns.value;`);
+	const child = new TestModule(() =>
+		`globalThis.count = (globalThis.count ?? 0) + 1;
+		export const value = 1;`);
+	await main.dispatch();
+	child.update(() =>
+		`globalThis.count = (globalThis.count ?? 0) + 1;
+		export const value = 2;`);
+	const result = await main.releaseUpdate();
+	expect(result?.type).toBe(UpdateStatus.success);
+	expect(main.global.count).toBe(undefined);
+	expect(main.global.read()).toBe(2);
+	expect(main.global.count).toBe(1);
+});
+
+test("source phase import of a module without a source", async () => {
+	const main = new TestModule(() =>
+		`import source child from ${child};`);
+	const child = new TestModule(() => "");
+	await expect(main.dispatch()).rejects.toThrow(SyntaxError);
+});
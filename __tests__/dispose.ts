@@ -44,3 +44,22 @@ test("do not throw from dispose, alright", async () => {
 	const result = await main.releaseUpdate();
 	expect(result?.type).toBe(UpdateStatus.fatalError);
 });
+
+test("preserved variables are passed to the next version", async () => {
+	const main = new TestModule(() =>
+		`import.meta.hot.accept();
+		/* @hot-preserve */ let state = { count: 0 };
+		globalThis.state = state;
+		++state.count;`);
+	await main.dispatch();
+	expect(main.global.state.count).toBe(1);
+	main.update();
+	expect((await main.releaseUpdate())?.type).toBe(UpdateStatus.success);
+	expect(main.global.state.count).toBe(2);
+	main.update(() =>
+		`import.meta.hot.accept();
+		/* @hot-preserve */ let state = { count: 10 };
+		globalThis.state = state;`);
+	expect((await main.releaseUpdate())?.type).toBe(UpdateStatus.success);
+	expect(main.global.state.count).toBe(10);
+});
@@ -1,4 +1,5 @@
-import { expect, test } from "@jest/globals";
+/* eslint-disable @typescript-eslint/restrict-template-expressions */
+import { expect, jest, test } from "@jest/globals";
 import { UpdateStatus } from "../runtime/controller.js";
 import { TestModule } from "./__fixtures__/module.js";
 
@@ -12,3 +13,32 @@ test("invalidate should work", async () => {
 	const result = await main.releaseUpdate();
 	expect(result?.type).toBe(UpdateStatus.success);
 });
+
+test("update requested during initial evaluation is queued", async () => {
+	const main = new TestModule(() =>
+		`import.meta.hot.accept();
+		globalThis.count = (globalThis.count ?? 0) + 1;
+		if (globalThis.count === 1) {
+			import.meta.hot.invalidate();
+		}`);
+	await main.dispatch();
+	expect(main.global.count).toBe(1);
+	await jest.runAllTimersAsync();
+	expect(main.global.count).toBe(2);
+});
+
+test("update is applied while main is awaiting", async () => {
+	const main = new TestModule(() =>
+		`import ${child};
+		await new Promise(() => {});`);
+	const child = new TestModule(() =>
+		`import.meta.hot.accept();
+		globalThis.count = (globalThis.count ?? 0) + 1;
+		globalThis.invalidate = () => import.meta.hot.invalidate();`);
+	void main.dispatch();
+	await jest.runAllTimersAsync();
+	expect(main.global.count).toBe(1);
+	main.global.invalidate();
+	await jest.runAllTimersAsync();
+	expect(main.global.count).toBe(2);
+});
@@ -0,0 +1,120 @@
+/* eslint-disable @typescript-eslint/restrict-template-expressions */
+import type { Format } from "../loader/node-loader.js";
+import { expect, test } from "@jest/globals";
+import { initialize, load } from "../loader/loader.js";
+import { UpdateStatus } from "../runtime/controller.js";
+import { TestModule } from "./__fixtures__/module.js";
+
+await initialize({ cache: false });
+
+// Runs the loader's `load` hook for `module`, with `source` as the result of the next loader
+const loadSource = async (module: TestModule, source: string | Uint8Array, { format, type }: { format?: Format; type?: string } = {}) => {
+	const params = new URLSearchParams([
+		[ "url", module.url ],
+		...type === undefined ? [] : [ [ "with", String(new URLSearchParams([ [ "type", type ] ])) ] ],
+	] as [ string, string ][]);
+	const result = await load(
+		`hot:module?${String(params)}`,
+		{ conditions: [], format, importAttributes: {} },
+		() => ({ format: format ?? "module", source }));
+	return String(result.source);
+};
+
+test("text and bytes modules export their source", async () => {
+	const main = new TestModule(() =>
+		`import text from ${textModule} with { type: "text" };
+		import bytes from ${bytesModule} with { type: "bytes" };
+		import.meta.hot.accept();
+		globalThis.text = text;
+		globalThis.bytes = Array.from(bytes);`);
+	let textSource = "";
+	let bytesSource = "";
+	const textModule = new TestModule(() => textSource, { loaded: true });
+	const bytesModule = new TestModule(() => bytesSource, { loaded: true });
+	textSource = await loadSource(textModule, "hello", { type: "text" });
+	bytesSource = await loadSource(bytesModule, new Uint8Array([ 1, 2, 255 ]), { type: "bytes" });
+	await main.dispatch();
+	expect(main.global.text).toBe("hello");
+	expect(main.global.bytes).toEqual([ 1, 2, 255 ]);
+	textSource = await loadSource(textModule, "world", { type: "text" });
+	textModule.update();
+	const result = await main.releaseUpdate();
+	expect(result?.type).toBe(UpdateStatus.success);
+	expect(main.global.text).toBe("world");
+});
+
+// WebAssembly module which exports `value()`, returning `result`
+const makeWasm = (result: number) => new Uint8Array([
+	0x00, 0x61, 0x73, 0x6d, 0x01, 0x00, 0x00, 0x00,
+	// type section: () => i32
+	0x01, 0x05, 0x01, 0x60, 0x00, 0x01, 0x7f,
+	// function section
+	0x03, 0x02, 0x01, 0x00,
+	// export section: "value"
+	0x07, 0x09, 0x01, 0x05, 0x76, 0x61, 0x6c, 0x75, 0x65, 0x00, 0x00,
+	// code section: i32.const `result`
+	0x0a, 0x06, 0x01, 0x04, 0x00, 0x41, result, 0x0b,
+]);
+
+test("wasm module is reloaded", async () => {
+	const main = new TestModule(() =>
+		`import { value } from ${wasm};
+		import source module from ${wasm};
+		import.meta.hot.accept();
+		globalThis.value = value();
+		globalThis.isModule = module instanceof WebAssembly.Module;`);
+	let wasmSource = "";
+	const wasm = new TestModule(() => wasmSource, { loaded: true });
+	wasmSource = await loadSource(wasm, makeWasm(1), { format: "wasm" });
+	await main.dispatch();
+	expect(main.global.value).toBe(1);
+	expect(main.global.isModule).toBe(true);
+	wasmSource = await loadSource(wasm, makeWasm(2), { format: "wasm" });
+	wasm.update();
+	const result = await main.releaseUpdate();
+	expect(result?.type).toBe(UpdateStatus.success);
+	expect(main.global.value).toBe(2);
+});
+
+test("typescript module is stripped and reloaded", async () => {
+	const main = new TestModule(() =>
+		`import { value } from ${child};
+		import.meta.hot.accept();
+		globalThis.value = value;`);
+	let childSource = "";
+	const child = new TestModule(() => childSource, { loaded: true });
+	childSource = await loadSource(child, "export const value: number = 1;", { format: "module-typescript" });
+	expect(childSource).not.toContain(": number");
+	await main.dispatch();
+	expect(main.global.value).toBe(1);
+	childSource = await loadSource(child, "type Value = number;\nexport const value: Value = 2;", { format: "module-typescript" });
+	child.update();
+	const result = await main.releaseUpdate();
+	expect(result?.type).toBe(UpdateStatus.success);
+	expect(main.global.value).toBe(2);
+});
+
+test("tsx module is compiled with the configured jsx import source", async () => {
+	await initialize({ jsx: { importSource: "preact" } });
+	try {
+		const main = new TestModule(() =>
+			`import { element } from ${child};
+			import.meta.hot.accept();
+			globalThis.element = element;`);
+		let childSource = "";
+		const child = new TestModule(() => childSource, { loaded: true, url: "test:///element.tsx" });
+		const runtime = new TestModule(() => "export const jsx = (type, props) => ({ type, props });", { url: "preact/jsx-runtime" });
+		childSource = await loadSource(child, "const name: string = 'world';\nexport const element = <div>{name}</div>;");
+		expect(childSource).toContain(encodeURIComponent(runtime.url));
+		expect(childSource).not.toContain(": string");
+		await main.dispatch();
+		expect(main.global.element).toEqual({ type: "div", props: { children: "world" } });
+		childSource = await loadSource(child, "const name: string = 'again';\nexport const element = <p>{name}</p>;");
+		child.update();
+		const result = await main.releaseUpdate();
+		expect(result?.type).toBe(UpdateStatus.success);
+		expect(main.global.element).toEqual({ type: "p", props: { children: "again" } });
+	} finally {
+		await initialize({ jsx: false });
+	}
+});
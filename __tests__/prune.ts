@@ -42,3 +42,25 @@ test("dispose and prune runs together", async () => {
 	expect(result?.type).toBe(UpdateStatus.success);
 	expect(main.global.seen).toBe(4);
 });
+
+test("pruned module is updated after it is imported again", async () => {
+	const main = new TestModule(() =>
+		`import { value } from ${child};
+		globalThis.value = value;
+		import.meta.hot.accept();`);
+	const child = new TestModule(() =>
+		`export { value } from ${leaf};`);
+	const leaf = new TestModule(() =>
+		"export const value = 1;");
+	await main.dispatch();
+	expect(main.global.value).toBe(1);
+	child.update(() => "export const value = 0;");
+	expect((await main.releaseUpdate())?.type).toBe(UpdateStatus.success);
+	expect(main.global.value).toBe(0);
+	child.update(() => `export { value } from ${leaf};`);
+	expect((await main.releaseUpdate())?.type).toBe(UpdateStatus.success);
+	expect(main.global.value).toBe(1);
+	leaf.update(() => "export const value = 2;");
+	expect((await main.releaseUpdate())?.type).toBe(UpdateStatus.success);
+	expect(main.global.value).toBe(2);
+});
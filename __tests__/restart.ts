@@ -0,0 +1,43 @@
+/* eslint-disable @typescript-eslint/restrict-template-expressions */
+import { expect, test } from "@jest/globals";
+import { UpdateStatus } from "../runtime/controller.js";
+import { TestModule } from "./__fixtures__/module.js";
+
+test("unaccepted update restarts the application", async () => {
+	const main = new TestModule(() =>
+		`import { value } from ${child};
+		globalThis.log ??= [];
+		globalThis.log.push(\`main \${value}\`);
+		import.meta.hot.dispose(() => { globalThis.log.push("dispose main"); });`);
+	const child = new TestModule(() =>
+		`export const value = 1;
+		import.meta.hot.prune(() => { globalThis.log.push("prune child"); });`);
+	await main.dispatch({ softRestart: true });
+	child.update(() =>
+		`export const value = 2;
+		import.meta.hot.prune(() => { globalThis.log.push("prune child"); });`);
+	const result = await main.releaseUpdate();
+	expect(result?.type).toBe(UpdateStatus.restarted);
+	expect(main.global.log).toEqual([ "main 1", "dispose main", "prune child", "main 2" ]);
+});
+
+test("failed restart is retried by the next update", async () => {
+	const main = new TestModule(() =>
+		`import { value } from ${child};
+		globalThis.value = value;`);
+	const child = new TestModule(() =>
+		"export const value = 1;");
+	await main.dispatch({ softRestart: true });
+	child.update(() =>
+		`throw new Error("child");
+		export const value = 2;`);
+	const result = await main.releaseUpdate();
+	expect(result?.type).toBe(UpdateStatus.restarted);
+	expect(result).toHaveProperty("evaluationError");
+	child.update(() =>
+		"export const value = 3;");
+	const result2 = await main.releaseUpdate();
+	expect(result2?.type).toBe(UpdateStatus.restarted);
+	expect(result2).toHaveProperty("evaluationError", undefined);
+	expect(main.global.value).toBe(3);
+});
@@ -0,0 +1,85 @@
+/* eslint-disable @typescript-eslint/restrict-template-expressions */
+import { expect, test } from "@jest/globals";
+import { UpdateStatus } from "../runtime/controller.js";
+import { TestModule } from "./__fixtures__/module.js";
+
+const options = { bindingSlots: true };
+
+test("assignments to exported bindings are visible to importers", async () => {
+	const main = new TestModule(() =>
+		`import { count, increment } from ${counter};
+		expect(count).toBe(0);
+		increment();
+		expect(count).toBe(1);
+		globalThis.read = () => count;`, options);
+	const counter = new TestModule(() =>
+		`export let count = 0;
+		export function increment() { ++count; }`, options);
+	await main.dispatch();
+	expect(main.global.read()).toBe(1);
+});
+
+test("re-exported bindings are updated", async () => {
+	const main = new TestModule(() =>
+		`import { value } from ${reexport};
+		globalThis.read = () => value;`, options);
+	const reexport = new TestModule(() =>
+		`export * from ${child};`, options);
+	const child = new TestModule(() =>
+		`export let value = 1;
+		globalThis.assign = next => { value = next; };`, options);
+	await main.dispatch();
+	expect(main.global.read()).toBe(1);
+	main.global.assign(2);
+	expect(main.global.read()).toBe(2);
+});
+
+test("updated modules are assigned to importers", async () => {
+	const main = new TestModule(() =>
+		`import value from ${child};
+		import.meta.hot.accept(${child});
+		globalThis.read = () => value;`, options);
+	const child = new TestModule(() =>
+		"export default 1;", options);
+	await main.dispatch();
+	child.update(() => "export default 2;");
+	const result = await main.releaseUpdate();
+	expect(result?.type).toBe(UpdateStatus.success);
+	expect(main.global.read()).toBe(2);
+});
+
+test("exported bindings are updated when plugins change the module", async () => {
+	const options = { bindingSlots: true, plugins: [ () => ({ visitor: {} }) ] };
+	const main = new TestModule(() =>
+		`import { count, last, values } from ${counter};
+		globalThis.read = () => ({ count, last, values });`, options);
+	const counter = new TestModule(() =>
+		`export let count = 0;
+		export let last;
+		export const values = [];
+		for (let ii = 0; ii < 2; ++ii) {
+			count += ii;
+		}
+		for (last of [ 1, 2 ]) {
+			values.push(last);
+		}`, options);
+	await main.dispatch();
+	expect(main.global.read()).toEqual({ count: 1, last: 2, values: [ 1, 2 ] });
+});
+
+test("importers of renamed and destructured exports are updated", async () => {
+	const main = new TestModule(() =>
+		`import { left, right, total } from ${counter};
+		globalThis.read = () => ({ left, right, total });`, options);
+	const counter = new TestModule(() =>
+		`let count = 0;
+		export let left, right;
+		export { count as total };
+		globalThis.assign = next => {
+			[ left, right ] = next;
+			count += left + right;
+		};`, options);
+	await main.dispatch();
+	main.global.assign([ 1, 2 ]);
+	expect(main.global.read()).toEqual({ left: 1, right: 2, total: 3 });
+});
@@ -0,0 +1,73 @@
+import { transformSync } from "@babel/core";
+import { expect, test } from "@jest/globals";
+import strip from "../loader/strip.js";
+
+const stripSource = (source: string) => transformSync(source, {
+	babelrc: false,
+	configFile: false,
+	plugins: [ strip ],
+	sourceType: "module",
+})?.code;
+
+test("removes handlers", () => {
+	const source = stripSource(`
+		console.log("before");
+		import.meta.hot?.accept("./child.js", () => {});
+		import.meta.dynoHot.dispose(data => { data.server = server; });
+		import.meta.hot.data.count++;
+		console.log("after");
+	`);
+	expect(source).toBe('console.log("before");\nconsole.log("after");');
+});
+
+test("replaces branches with the branch which would run", () => {
+	const source = stripSource(`
+		if (import.meta.hot) {
+			development();
+		} else {
+			production();
+		}
+		if (!import.meta.hot) {
+			production();
+		}
+		const mode = import.meta.hot ? "development" : "production";
+		const server = import.meta.hot?.data?.server ?? createServer();
+	`);
+	expect(source).toBe('production();\nproduction();\nconst mode = "production";\nconst server = createServer();');
+});
+
+test("inlines constants initialized from `import.meta.hot`", () => {
+	const source = stripSource(`
+		const hot = import.meta.hot;
+		const server = hot?.data?.server ?? createServer();
+		hot?.dispose(data => { data.server = server; });
+		export const value = hot;
+	`);
+	expect(source).toBe("const server = createServer();\nexport const value = void 0;");
+});
+
+test("keeps the right-hand side of assignments", () => {
+	const source = stripSource(`
+		f(import.meta.hot.data.server = createServer());
+		import.meta.hot.data.client = createClient();
+		import.meta.hot.data.count = 1;
+		if (import.meta.hot) {
+			import.meta.hot.data.count = 2;
+		}
+	`);
+	expect(source).toBe("f(createServer());\ncreateClient();");
+});
+
+test("keeps `var` bindings of removed branches", () => {
+	const source = stripSource(`
+		if (import.meta.hot) {
+			var cache = new Map();
+		}
+		export function get(key) {
+			return cache?.get(key);
+		}
+		if (import.meta.hot) var value = 1;
+		use(value);
+	`);
+	expect(source).toBe("var cache, value;\nexport function get(key) {\n  return cache?.get(key);\n}\nuse(value);");
+});
@@ -1,6 +1,112 @@
+/* eslint-disable @typescript-eslint/restrict-template-expressions */
+import transformReactJsx from "@babel/plugin-transform-react-jsx";
+import transformTypeScript from "@babel/plugin-transform-typescript";
 import { expect, test } from "@jest/globals";
 import { transformModuleSource } from "../loader/transform.js";
+import { UpdateStatus } from "../runtime/controller.js";
+import { TestModule } from "./__fixtures__/module.js";
 
 test("supports `using`", () => {
 	expect(() => transformModuleSource("test.js", {}, "using foo = {}", null)).not.toThrow();
 });
+
+test("supports import attributes and deprecated assertions", () => {
+	const attributes = transformModuleSource("test.js", {}, 'import json from "./data.json" with { type: "json" };', null);
+	const assertions = transformModuleSource("test.js", {}, 'import json from "./data.json" assert { type: "json" };', null);
+	expect(attributes).toContain("hot:module?specifier=.%2Fdata.json&with=type%3Djson");
+	expect(assertions).toContain("hot:module?specifier=.%2Fdata.json&with=type%3Djson");
+});
+
+test("passes the original format to the runtime", () => {
+	const source = transformModuleSource("test.ts", {}, "export const value = 1;", null, "module-typescript");
+	expect(source).toContain('"module-typescript", {}');
+});
+
+test("runs user plugins before the hot transformation", () => {
+	const plugin = () => ({
+		visitor: {
+			Identifier(path: { node: { name: string } }) {
+				if (path.node.name === "__DEV__") {
+					path.node.name = "development";
+				}
+			},
+		},
+	});
+	const source = transformModuleSource("test.js", {}, "export const value = __DEV__;", null, "module", { plugins: [ plugin ] });
+	expect(source).toContain("development");
+	expect(source).not.toContain("__DEV__");
+});
+
+test("modules changed by plugins are transformed in the same pass", async () => {
+	const options = { plugins: [ () => ({ visitor: {} }) ] };
+	const main = new TestModule(() =>
+		`import Counter, { value } from ${child};
+		import.meta.hot.accept();
+		/* @hot-preserve */ let counter = new Counter();
+		++counter.count;
+		globalThis.read = () => ({ value, count: counter.count });`, options);
+	const child = new TestModule(() =>
+		`export const value = 1;
+		export default class { count = 0; }`, options);
+	await main.dispatch();
+	expect(main.global.read()).toEqual({ value: 1, count: 1 });
+	child.update(() =>
+		`export const value = 2;
+		export default class { count = 0; }`);
+	expect((await main.releaseUpdate())?.type).toBe(UpdateStatus.success);
+	expect(main.global.read()).toEqual({ value: 2, count: 2 });
+	main.update();
+	expect((await main.releaseUpdate())?.type).toBe(UpdateStatus.success);
+	expect(main.global.read()).toEqual({ value: 2, count: 3 });
+});
+
+test("syntax plugins share the parse", () => {
+	const plugins = [
+		[ transformTypeScript, { isTSX: true } ],
+		[ transformReactJsx, { importSource: "preact", runtime: "automatic" } ],
+	];
+	const source = transformModuleSource("test.tsx", {}, "const name: string = 'world';\nexport const element = <div>{name}</div>;", null, "module", { plugins });
+	expect(source).toContain("preact%2Fjsx-runtime");
+	expect(source).not.toContain(": string");
+});
+
+test("supports deferred and source phase imports", () => {
+	const source = transformModuleSource("test.js", {}, 'import defer * as ns from "./module.js";\nimport source wasm from "./module.wasm";\nexport const read = () => [ ns, wasm ];', null);
+	expect(source).toContain('{"type":"importDefer","as":"ns"}');
+	expect(source).toContain('{"type":"importSource","as":"wasm"}');
+});
+
+test("re-exporting a phase import is unsupported", () => {
+	expect(() => transformModuleSource("test.js", {}, 'import defer * as ns from "./module.js";\nexport { ns };', null)).toThrow("not supported");
+});
+
+test("preserves the original formatting and line numbers", () => {
+	const source = transformModuleSource("test.js", {}, "import { value } from './module.js';\n\nexport   const  read = ( ) =>   value ;  // comment\nexport default function() {}\n", null);
+	const lines = source.split("\n");
+	expect(lines[2]).toMatch(/^const {2}read = \( \) => {3}[\w$]+\.value\(\) ; {2}\/\/ comment$/);
+	expect(lines[3]).toMatch(/^function \w+\(\) \{\}$/);
+});
+
+test("reports accepted specifiers which are never imported", () => {
+	const sourceText = 'import "./module.js";\nimport.meta.hot.accept([ "./module.js", "./mdoule.js" ]);\nimport.meta.hot?.accept(`./dynamic.js`);\nawait import("./dynamic.js");';
+	const source = transformModuleSource("test.js", {}, sourceText, null);
+	expect(source).toContain('test.js:2:41: Accepted specifier \\"./mdoule.js\\" is never imported');
+	expect(source).not.toContain('\\"./module.js\\"');
+	expect(source).not.toContain('\\"./dynamic.js\\"');
+	expect(() => transformModuleSource("test.js", {}, sourceText, null, "module", { unimportedAccept: "error" })).toThrow("never imported");
+	expect(transformModuleSource("test.js", {}, 'import.meta.hot.accept("./module.js");\nawait import(specifier);', null)).not.toContain("never imported");
+});
+
+test("warns about code which behaves differently after the transform", () => {
+	const source = transformModuleSource("test.js", {}, `import value from "./module.js";
+eval("value");
+function fn() { return [ this, arguments ]; }
+class Class { field = this; }
+fn.toString();
+const arrow = () => [ this, arguments ];`, null);
+	expect(source).toContain("test.js:2:1: Direct `eval`");
+	expect(source).toContain("test.js:5:1: `toString`");
+	expect(source).toContain("test.js:6:23: Top-level `this`");
+	expect(source).toContain("test.js:6:29: Top-level `arguments`");
+	expect(source.match(/\[hot\] Warning/g)).toHaveLength(4);
+});
@@ -0,0 +1,89 @@
+/* eslint-disable @typescript-eslint/restrict-template-expressions */
+import { expect, jest, test } from "@jest/globals";
+import { UpdateStatus } from "../runtime/controller.js";
+import { TestModule } from "./__fixtures__/module.js";
+
+test("failed update restores every module", async () => {
+	const main = new TestModule(() =>
+		`import ${middle};
+		import ${bad};
+		import.meta.hot.accept(${bad});`);
+	const middle = new TestModule(() =>
+		`import { value } from ${leaf};
+		globalThis.seen = value;
+		import.meta.hot.accept(${leaf}, () => {
+			globalThis.seen = value;
+		});`);
+	const leaf = new TestModule(() =>
+		`export const value = 1;
+		import.meta.hot.dispose(() => {
+			(globalThis.disposed ??= []).push(value);
+		});`);
+	const bad = new TestModule(() => "");
+	await main.dispatch({ transactional: true });
+	expect(main.global.seen).toBe(1);
+	leaf.update(() =>
+		`export const value = 2;
+		import.meta.hot.dispose(() => {
+			(globalThis.disposed ??= []).push(value);
+		});`);
+	bad.update(() => "throw new Error();");
+	const result = await main.releaseUpdate();
+	expect(result?.type).toBe(UpdateStatus.evaluationFailure);
+	expect(main.global.seen).toBe(1);
+	expect(main.global.disposed).toEqual([ 2 ]);
+	bad.update(() => "");
+	const retry = await main.releaseUpdate();
+	expect(retry?.type).toBe(UpdateStatus.success);
+	expect(main.global.seen).toBe(2);
+	expect(main.global.disposed).toEqual([ 2, 1 ]);
+});
+
+test("dispose handlers run after the update evaluates", async () => {
+	const main = new TestModule(() =>
+		`import ${child};
+		import.meta.hot.accept(${child});`);
+	const child = new TestModule(() =>
+		`(globalThis.log ??= []).push("evaluate");
+		globalThis.version = () => import.meta.hot.data?.version;
+		import.meta.hot.dispose(data => {
+			globalThis.log.push("dispose");
+			data.version = 1;
+		});`);
+	await main.dispatch({ transactional: true });
+	child.update();
+	const result = await main.releaseUpdate();
+	expect(result?.type).toBe(UpdateStatus.success);
+	expect(main.global.log).toEqual([ "evaluate", "evaluate", "dispose" ]);
+	expect(main.global.version()).toBe(1);
+});
+
+test("`@hot-preserve` is an error with `transactional`", async () => {
+	const main = new TestModule(() =>
+		`import.meta.hot.accept();
+		/* @hot-preserve */ let state = { count: 0 };
+		++state.count;`, { transactional: true });
+	await expect(main.dispatch({ transactional: true })).rejects.toThrow("can't be used with `transactional`");
+});
+
+test("reading `import.meta.hot.data` during evaluation warns", async () => {
+	const error = jest.spyOn(console, "error").mockImplementation(() => {});
+	try {
+		const main = new TestModule(() =>
+			`import.meta.hot.accept();
+			globalThis.client = import.meta.hot.data?.client ?? {};
+			import.meta.hot.dispose(data => {
+				data.client = globalThis.client;
+			});`);
+		await main.dispatch({ transactional: true });
+		const client = main.global.client;
+		main.update();
+		const result = await main.releaseUpdate();
+		expect(result?.type).toBe(UpdateStatus.success);
+		expect(main.global.client).not.toBe(client);
+		expect(error).toHaveBeenCalledTimes(1);
+		expect(error.mock.calls[0]![0]).toContain("import.meta.hot.data");
+	} finally {
+		error.mockRestore();
+	}
+});
@@ -0,0 +1,89 @@
+import { execFileSync } from "node:child_process";
+import * as fs from "node:fs/promises";
+import * as os from "node:os";
+import * as path from "node:path";
+
+// Measures a loop which reads imported bindings, and a loop which assigns an exported binding
+// that four modules import, without dynohot, with the default getter bindings, and with
+// `bindingSlots`. Run with `npm run bench`.
+
+const iterations = 5e7;
+const writeIterations = 1e6;
+const importers = 4;
+const runs = 5;
+
+const lib = `
+export let counter = 0;
+export const table = [ 1, 2, 3, 4 ];
+export function add(left, right) { return left + right; }
+export function tick() { ++counter; }
+`;
+
+const main = `
+import { add, counter, table, tick } from "./lib.js";
+let total = 0;
+const start = performance.now();
+for (let ii = 0; ii < ${iterations}; ++ii) {
+	total = add(total, table[ii & 3]) + counter;
+}
+tick();
+console.log(JSON.stringify({ elapsed: performance.now() - start, total }));
+`;
+
+const importer = `
+import { counter } from "./lib.js";
+export const read = () => counter;
+`;
+
+const writes = `
+import { counter, tick } from "./lib.js";
+${Array.from({ length: importers }, (_, ii) => `import { read as read${ii} } from "./importer${ii}.js";`).join("\n")}
+const start = performance.now();
+for (let ii = 0; ii < ${writeIterations}; ++ii) {
+	tick();
+}
+const total = counter + ${Array.from({ length: importers }, (_, ii) => `read${ii}()`).join(" + ")};
+console.log(JSON.stringify({ elapsed: performance.now() - start, total }));
+`;
+
+const register = (bindingSlots: boolean) => `
+import { register } from ${JSON.stringify(String(new URL("../loader/register.js", import.meta.url)))};
+register({ bindingSlots: ${bindingSlots}, cache: false, logLevel: "error", watcher: "none" });
+`;
+
+const directory = await fs.mkdtemp(path.join(os.tmpdir(), "dynohot-bench-"));
+try {
+	await fs.writeFile(path.join(directory, "package.json"), '{ "type": "module" }\n');
+	await fs.writeFile(path.join(directory, "lib.js"), lib);
+	await fs.writeFile(path.join(directory, "main.js"), main);
+	await fs.writeFile(path.join(directory, "writes.js"), writes);
+	for (let ii = 0; ii < importers; ++ii) {
+		await fs.writeFile(path.join(directory, `importer${ii}.js`), importer);
+	}
+	await fs.writeFile(path.join(directory, "getters.js"), register(false));
+	await fs.writeFile(path.join(directory, "slots.js"), register(true));
+
+	const modes = [
+		[ "nodejs", [] ],
+		[ "getters", [ "--import", "./getters.js" ] ],
+		[ "bindingSlots", [ "--import", "./slots.js" ] ],
+	] as const;
+	const cases = [
+		[ "reads", "main.js" ],
+		[ "writes", "writes.js" ],
+	] as const;
+	for (const [ caseName, entry ] of cases) {
+		console.log(caseName);
+		for (const [ name, flags ] of modes) {
+			let best = Infinity;
+			for (let ii = 0; ii < runs; ++ii) {
+				const output = execFileSync(process.execPath, [ ...flags, entry ], { cwd: directory, encoding: "utf8" });
+				const { elapsed } = JSON.parse(output.trim().split("\n").at(-1)!) as { elapsed: number };
+				best = Math.min(best, elapsed);
+			}
+			console.log(`  ${name.padEnd(12)} ${best.toFixed(1).padStart(8)}ms`);
+		}
+	}
+} finally {
+	await fs.rm(directory, { recursive: true });
+}
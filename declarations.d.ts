@@ -8,3 +8,33 @@ type AnyObject = Partial<Record<keyof any, unknown>>;
 type Maybe<Type = null> = Type | undefined | null | false | "" | 0;
 type MaybePromise<Type> = Type | Promise<Type>;
 type MaybePromiseLike<Type> = Type | PromiseLike<Type>;
+
+// `WebAssembly` is declared by "lib.dom.d.ts", which isn't included. This is just the part used by
+// the loader.
+declare namespace WebAssembly {
+	interface ModuleExportDescriptor {
+		kind: string;
+		name: string;
+	}
+	interface ModuleImportDescriptor {
+		kind: string;
+		module: string;
+		name: string;
+	}
+	// eslint-disable-next-line @typescript-eslint/no-extraneous-class
+	class Module {
+		constructor(bytes: ArrayBufferView | ArrayBuffer);
+		static exports(module: Module): ModuleExportDescriptor[];
+		static imports(module: Module): ModuleImportDescriptor[];
+	}
+}
+
+// Optional dependencies used by the `jsx` option, which don't ship type declarations
+declare module "@babel/plugin-transform-react-jsx" {
+	const plugin: import("@babel/core").PluginItem;
+	export default plugin;
+}
+declare module "@babel/plugin-transform-typescript" {
+	const plugin: import("@babel/core").PluginItem;
+	export default plugin;
+}
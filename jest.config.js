@@ -29,12 +29,12 @@ const config = {
 		"\\/__tests__\\/",
 	],
 	extensionsToTreatAsEsm: [ ".ts" ],
+	// Tests run as native ES modules [`--experimental-vm-modules`], which support `import.meta.url`,
+	// so it isn't transformed. A transform to `require("url")` would throw when the loader's cache
+	// or the CommonJS runtime read it, since `require` is not defined in a module.
 	transform: {
 		"\\.m?ts$": [
 			"babel-jest", {
-				plugins: [
-					"babel-plugin-transform-import-meta",
-				],
 				presets: [
 					[ "@babel/preset-env", { targets: { node: "current" } } ],
 					[ "@babel/preset-typescript", { allowDeclareFields: true } ],
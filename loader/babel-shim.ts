@@ -1,6 +1,5 @@
 import type { types as t } from "@babel/core";
 import type { Node, Scope, TraverseOptions } from "@babel/traverse";
-import _generate from "@babel/generator";
 import _traverse, { Hub, NodePath } from "@babel/traverse";
 
 /** @internal */
@@ -17,9 +16,6 @@ export function makeRootPath(file: t.File) {
 	return path;
 }
 
-/** @internal */
-export const generate = _generate.default;
-
 /** @internal */
 export const traverse: <State>(
 	parent: Node,
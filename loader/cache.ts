@@ -0,0 +1,155 @@
+import type { BabelPlugin } from "./config.js";
+import { createHash } from "node:crypto";
+import * as fs from "node:fs/promises";
+import { createRequire } from "node:module";
+import * as path from "node:path";
+import { fileURLToPath } from "node:url";
+
+/**
+ * On-disk cache of transformed module source, keyed by a hash of everything which affects the
+ * result of the transformation.
+ * @internal
+ */
+export interface TransformCache {
+	get: (key: string) => Promise<string | undefined>;
+	set: (key: string, value: string) => Promise<void>;
+}
+
+/** @internal */
+export const nullCache: TransformCache = {
+	get: () => Promise.resolve(undefined),
+	set: () => Promise.resolve(),
+};
+
+// Returns the version from the nearest `package.json` named `name` which contains `directory`
+async function findPackageVersion(directory: string, name: string) {
+	while (true) {
+		try {
+			const packageJson = JSON.parse(await fs.readFile(path.join(directory, "package.json"), "utf8")) as { name?: string; version?: string };
+			if (packageJson.name === name) {
+				return packageJson.version ?? "";
+			}
+		} catch {}
+		const parent = path.dirname(directory);
+		if (parent === directory) {
+			return undefined;
+		}
+		directory = parent;
+	}
+}
+
+// Changes to dynohot itself [and therefore the transformation] invalidate the whole cache
+const version = await findPackageVersion(path.dirname(fileURLToPath(import.meta.url)), "dynohot") ?? "";
+
+// Package name of a module specifier, for example "@babel/core" from "@babel/core/lib/index.js"
+const packageNameOf = (specifier: string) =>
+	specifier.split("/").slice(0, specifier.startsWith("@") ? 2 : 1).join("/");
+
+/**
+ * Returns `name@version` for the package which provides `specifier`, as resolved from `directory`,
+ * or just `specifier` if it can't be resolved.
+ * @internal
+ */
+export async function resolvePackageVersion(specifier: string, directory: string) {
+	try {
+		const resolved = createRequire(path.join(directory, "noop.js")).resolve(specifier);
+		const name = packageNameOf(specifier);
+		const version = await findPackageVersion(path.dirname(resolved), name);
+		return version === undefined ? specifier : `${name}@${version}`;
+	} catch {
+		return specifier;
+	}
+}
+
+/**
+ * Returns a cache key component for the configured Babel plugins. Plugins named by a string are
+ * keyed by the version of the package which Babel would load, so upgrading them invalidates the
+ * cache. Functions are keyed by their source text, see `hasFunctionPlugin`.
+ * @internal
+ */
+export async function makePluginsKey(plugins: readonly BabelPlugin[], directory: string) {
+	// Babel's shorthand: "foo" is "babel-plugin-foo", and "@scope/foo" is "@scope/babel-plugin-foo"
+	const resolve = async (name: string) => {
+		if (name.startsWith("module:")) {
+			return resolvePackageVersion(name.slice(7), directory);
+		}
+		const prefixed = name.startsWith("@")
+			? name.replace(/^(@[^/]+\/)(?!babel-plugin-)/, "$1babel-plugin-")
+			: name.startsWith("babel-plugin-") ? name : `babel-plugin-${name}`;
+		const resolved = await resolvePackageVersion(name, directory);
+		return resolved === name ? resolvePackageVersion(prefixed, directory) : resolved;
+	};
+	const keys = await Promise.all(plugins.map(async plugin => {
+		const [ value, options ] = Array.isArray(plugin) ? plugin as readonly unknown[] : [ plugin ];
+		const key = typeof value === "string" ? await resolve(value) : String(value);
+		return [ key, options ];
+	}));
+	return JSON.stringify(keys, (key, value: unknown) => typeof value === "function" ? String(value) : value);
+}
+
+/**
+ * Plugins which are passed as functions can't be traced back to the package which provides them,
+ * so the cache can't tell when they are upgraded. It is opt-in for these configurations.
+ * @internal
+ */
+export function hasFunctionPlugin(plugins: readonly BabelPlugin[] | undefined) {
+	return plugins?.some(plugin => typeof (Array.isArray(plugin) ? (plugin as readonly unknown[])[0] : plugin) === "function") ?? false;
+}
+
+/**
+ * Returns a hash of the given key components, and the current version of dynohot.
+ * @internal
+ */
+export function makeCacheKey(...components: readonly unknown[]) {
+	const hash = createHash("sha256");
+	hash.update(version);
+	for (const component of components) {
+		hash.update("\0");
+		hash.update(typeof component === "string" ? component : String(JSON.stringify(component)));
+	}
+	return hash.digest("hex");
+}
+
+/**
+ * Create a cache which stores entries as files in `directory`. Failures to read or write the cache
+ * are not fatal, the module will simply be transformed again.
+ * @internal
+ */
+export function makeTransformCache(directory: string): TransformCache {
+	let initialized: Promise<boolean> | undefined;
+	const initialize = () => initialized ??= async function() {
+		try {
+			await fs.mkdir(directory, { recursive: true });
+			return true;
+		} catch {
+			return false;
+		}
+	}();
+	// Entries are sharded by the first two characters of the key to keep directories small
+	const pathOf = (key: string) => path.join(directory, key.slice(0, 2), `${key.slice(2)}.js`);
+	return {
+		async get(key) {
+			try {
+				return await fs.readFile(pathOf(key), "utf8");
+			} catch {
+				return undefined;
+			}
+		},
+
+		async set(key, value) {
+			if (await initialize()) {
+				// Write to a temporary file first so that concurrent processes never observe a
+				// partially written entry.
+				const file = pathOf(key);
+				const temporary = `${file}.${process.pid}.tmp`;
+				try {
+					await fs.mkdir(path.dirname(file), { recursive: true });
+					await fs.writeFile(temporary, value);
+					await fs.rename(temporary, file);
+				} catch {
+					await fs.rm(temporary, { force: true }).catch(() => {});
+				}
+			}
+		},
+	};
+}
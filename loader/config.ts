@@ -0,0 +1,464 @@
+import { realpathSync } from "node:fs";
+import * as fs from "node:fs/promises";
+import * as path from "node:path";
+import { fileURLToPath, pathToFileURL } from "node:url";
+import { hasFunctionPlugin } from "./cache.js";
+
+/**
+ * Project-wide configuration. This is read from `dynohot.config.js` [or `.mjs`], or the "dynohot"
+ * field in `package.json`. The nearest file to the current working directory is used, and the search
+ * stops at the first directory which contains a `package.json`.
+ */
+export interface Config {
+	/**
+	 * Glob patterns, relative to the configuration file, of modules which participate in hot
+	 * reloading. Patterns which begin with `**` match anywhere. Default: all modules.
+	 */
+	include?: readonly string[] | undefined;
+
+	/**
+	 * Glob patterns, relative to the configuration file, of modules which will not participate in
+	 * hot reloading. These take precedence over `include`. Default: `[ "**\/node_modules/**" ]`
+	 */
+	exclude?: readonly string[] | undefined;
+
+	/**
+	 * Directories, relative to the configuration file, whose modules participate in hot reloading
+	 * even when they are imported through a symlink in `node_modules`, for example workspace
+	 * packages in a monorepo. Modules are compared by their real path, after resolving symlinks.
+	 * `include` does not apply to these modules, but `exclude` is still tested against the real
+	 * path, so dependencies installed inside of an include root are not reloadable.
+	 */
+	includeRoots?: readonly string[] | undefined;
+
+	/**
+	 * Directory, relative to the configuration file, where transformed modules are cached between
+	 * runs. `false` disables the cache. The cache is disabled by default if any of `plugins` is a
+	 * function, since their upgrades can't be detected. Default: "node_modules/.cache/dynohot"
+	 */
+	cache?: boolean | string | undefined;
+
+	/**
+	 * Number of milliseconds to wait after a file change before dispatching an update.
+	 * Default: 100
+	 */
+	debounce?: number | undefined;
+
+	/**
+	 * "info" reports every update, "error" reports only updates which could not be applied.
+	 * Default: "info"
+	 */
+	logLevel?: LogLevel | undefined;
+
+	/**
+	 * "native" uses `fs.watch` on the parent directory of each module, "poll" uses `fs.watchFile`,
+	 * and "none" disables file watching entirely [updates can still be dispatched via
+	 * `import.meta.hot.invalidate()`]. Default: "native"
+	 */
+	watcher?: WatcherMode | undefined;
+
+	/**
+	 * Enables hot reloading of CommonJS modules which are imported from ES modules. When a CommonJS
+	 * module, or any CommonJS module it requires, changes then it is evicted from `require.cache`
+	 * along with its CommonJS dependents and imported again. Default: false
+	 */
+	commonjs?: boolean | undefined;
+
+	/**
+	 * Compiles `.jsx` and `.tsx` modules, and removes types from `.ts` and `.mts` modules, in the same
+	 * Babel pass as the hot transformation. This requires the optional dependencies
+	 * `@babel/plugin-transform-react-jsx` and `@babel/plugin-transform-typescript`. Imports must
+	 * include the file extension. Default: false
+	 */
+	jsx?: boolean | JsxOptions | undefined;
+
+	/**
+	 * Babel plugins which run on each reloadable module before the hot transformation. They share its
+	 * parse and source map generation. Plugins named by a string are resolved relative to the
+	 * configuration file, and the version of their package is part of the transformation cache key.
+	 * Functions are part of the key by their source text only, so `cache` must be enabled explicitly
+	 * for them, and cleared if the plugin or its dependencies change.
+	 */
+	plugins?: readonly BabelPlugin[] | undefined;
+
+	/**
+	 * Compiles imported bindings to plain variables, which are assigned by the runtime when the
+	 * module is linked and whenever the exporting module initializes or assigns them. This avoids a
+	 * function call on each access. Bindings exported by modules which aren't reloadable are read
+	 * only when the importing module is linked, and a binding which is read before it is
+	 * initialized, in an import cycle, is `undefined` instead of throwing. Reads are faster, but
+	 * each assignment to an exported binding assigns every importer's variable again, which is
+	 * much slower than a plain assignment. Avoid it for bindings which are assigned in hot loops,
+	 * see `npm run bench`. Default: false
+	 */
+	bindingSlots?: boolean | undefined;
+
+	/**
+	 * What to do when a literal specifier passed to `import.meta.hot.accept` is never imported by
+	 * the module, statically or by a literal `import()`. "warn" reports the specifier and its location
+	 * each time the module is loaded, and "error" fails the load. Modules which `import()` a computed
+	 * specifier are not checked. Default: "warn"
+	 */
+	unimportedAccept?: UnimportedAccept | undefined;
+
+	/**
+	 * Implicitly accepts updates to a module's dependencies when their imported bindings are only
+	 * read inside of functions and classes which aren't used while the module is evaluated. These
+	 * modules are relinked instead of evaluated again. A function which is referenced during
+	 * evaluation, or which isn't bound to a name, is assumed to be invoked. Default: false
+	 */
+	acceptLazyImports?: boolean | undefined;
+
+	/**
+	 * Applies each update as a transaction. Dispose and self-accept handlers of replaced modules are
+	 * invoked after the whole update has evaluated, so `import.meta.hot.data` is empty while the new
+	 * instance is evaluated and it is filled in afterward. If any module fails to evaluate then every
+	 * module is restored to its previous instance, new instances which were evaluated are disposed,
+	 * and accept handlers are invoked again with the restored modules. Default: false
+	 *
+	 * Since `data` is empty during evaluation, state can't be passed forward to the new instance.
+	 * Patterns like `import.meta.hot.data?.client ?? connect()` create a new resource on every
+	 * update, and the `@hot-preserve` directive is an error in this mode. Reading `data` while the
+	 * new instance is evaluated logs a warning.
+	 */
+	transactional?: boolean | undefined;
+
+	/**
+	 * Restarts the application in-process when an update is declined, or isn't accepted, or after
+	 * a fatal error. The `dispose` and `prune` handlers of every module are invoked, importers
+	 * before their dependencies, and then the main module is dispatched again with the latest code.
+	 * The process, and anything which isn't owned by a module, survives the restart. Default: false
+	 */
+	softRestart?: boolean | undefined;
+
+	/**
+	 * Handlers for additional module formats, for example YAML or GraphQL files. These modules are
+	 * watched and reloaded just like JavaScript modules. Handlers are functions, so they can only be
+	 * specified in `dynohot.config.js`.
+	 */
+	formats?: readonly FormatHandler[] | undefined;
+}
+
+/**
+ * Loads a file which nodejs doesn't understand as a reloadable module. Files are matched by the
+ * `type` import attribute if there is one, otherwise by file extension.
+ */
+export interface FormatHandler {
+	/** File extensions handled by this format, including the leading ".", for example `[ ".yaml" ]` */
+	extensions?: readonly string[] | undefined;
+
+	/** Value of the `type` import attribute handled by this format, for example `"yaml"` */
+	type?: string | undefined;
+
+	/**
+	 * Returns ES module source text for the file. The result is transformed like any other module,
+	 * so it may import other modules.
+	 */
+	load: (source: string, url: string) => string | Promise<string>;
+}
+
+export interface JsxOptions {
+	/**
+	 * JSX is compiled with the automatic runtime, which is imported from `${importSource}/jsx-runtime`.
+	 * Default: "react"
+	 */
+	importSource?: string | undefined;
+}
+
+/** A Babel plugin, as accepted by the `plugins` option of `@babel/core` */
+export type BabelPlugin = string | object | readonly [ string | object, unknown?, string? ];
+
+export type LogLevel = "error" | "info";
+
+export type UnimportedAccept = "error" | "ignore" | "warn";
+
+export type WatcherMode = "native" | "none" | "poll";
+
+/** @internal */
+export interface ResolvedConfig extends Config {
+	/** Location of the configuration file, used to resolve relative globs */
+	readonly url: string;
+}
+
+const configFileNames = [ "dynohot.config.js", "dynohot.config.mjs" ];
+
+/**
+ * Search for the project configuration starting at `directory`.
+ * @internal
+ */
+export async function loadConfig(directory = process.cwd()): Promise<ResolvedConfig | undefined> {
+	for (let current = path.resolve(directory); ; current = path.dirname(current)) {
+		for (const fileName of configFileNames) {
+			const configPath = path.join(current, fileName);
+			if (await exists(configPath)) {
+				const url = String(pathToFileURL(configPath));
+				const module = await import(url) as { default?: unknown };
+				return validateConfig(url, module.default ?? {});
+			}
+		}
+		const packagePath = path.join(current, "package.json");
+		if (await exists(packagePath)) {
+			const packageJson = JSON.parse(await fs.readFile(packagePath, "utf8")) as { dynohot?: unknown };
+			if (packageJson.dynohot === undefined) {
+				return undefined;
+			} else {
+				return validateConfig(String(pathToFileURL(packagePath)), packageJson.dynohot);
+			}
+		}
+		if (path.dirname(current) === current) {
+			return undefined;
+		}
+	}
+}
+
+/**
+ * Returns a predicate which tests whether or not a module URL should be excluded from hot
+ * reloading. If `ignore` is specified then it replaces the `include` and `exclude` globs of the
+ * configuration.
+ * @internal
+ */
+export function makeIgnorePredicate(config: ResolvedConfig | undefined, ignore?: RegExp) {
+	const base = config === undefined ? process.cwd() : path.dirname(fileURLToPath(config.url));
+	const makeMatcher = (globs: readonly string[]) => {
+		// Patterns which begin with "**" can match anywhere, so they aren't resolved
+		const patterns = globs.map(glob => globToRegExp(glob.startsWith("**") ? glob : path.resolve(base, glob)));
+		return (url: string) => {
+			const file = fileURLToPath(url);
+			return patterns.some(pattern => pattern.test(file));
+		};
+	};
+	const include = ignore === undefined && config?.include !== undefined ? makeMatcher(config.include) : () => true;
+	const exclude = ignore === undefined ? makeMatcher(config?.exclude ?? [ "**/node_modules/**" ]) : (url: string) => ignore.test(url);
+	const includeRoots = (config?.includeRoots ?? []).map(root => path.resolve(base, root));
+	const realURLs = new Map<string, string>();
+	const realURL = (url: string) => realURLs.get(url) ?? function() {
+		const result = function() {
+			try {
+				return String(pathToFileURL(realpathSync(fileURLToPath(url))));
+			} catch {
+				return url;
+			}
+		}();
+		realURLs.set(url, result);
+		return result;
+	}();
+	return (url: string) => {
+		if (!url.startsWith("file:")) {
+			return ignore?.test(url) ?? false;
+		}
+		if (includeRoots.length > 0) {
+			const real = realURL(url);
+			const file = fileURLToPath(real);
+			const isWithin = (root: string) => {
+				const relative = path.relative(root, file);
+				return relative !== ".." && !relative.startsWith(`..${path.sep}`) && !path.isAbsolute(relative);
+			};
+			if (includeRoots.some(isWithin)) {
+				return exclude(real);
+			}
+		}
+		return !include(url) || exclude(url);
+	};
+}
+
+/**
+ * Returns a function which finds the format handler, if any, for a module URL and its import
+ * attributes.
+ * @internal
+ */
+export function makeFormatLookup(config: Config | undefined) {
+	const formats = config?.formats ?? [];
+	return (url: string, importAttributes: Record<string, string>) => {
+		const type = importAttributes.type;
+		if (type === undefined) {
+			const { pathname } = new URL(url);
+			return formats.find(format => format.extensions?.some(extension => pathname.endsWith(extension)));
+		} else {
+			return formats.find(format => format.type === type);
+		}
+	};
+}
+
+/**
+ * Returns the directory used by the transformation cache, or `undefined` if it is disabled.
+ * `setting` takes precedence over the configuration file.
+ * @internal
+ */
+export function resolveCacheDirectory(config: ResolvedConfig | undefined, setting?: boolean | string) {
+	const cache = setting ?? config?.cache ?? !hasFunctionPlugin(config?.plugins);
+	if (cache === false) {
+		return undefined;
+	}
+	const base = config === undefined ? process.cwd() : path.dirname(fileURLToPath(config.url));
+	return path.resolve(base, cache === true ? "node_modules/.cache/dynohot" : cache);
+}
+
+/**
+ * Converts a glob pattern to a regular expression. Supports `**`, `*`, `?`, `[...]` character
+ * classes, and `{a,b}` alternations. Both `/` and `\` are accepted as path separators.
+ * @internal
+ */
+export function globToRegExp(glob: string) {
+	const separator = "[/\\\\]";
+	const notSeparator = "[^/\\\\]";
+	let pattern = "";
+	let braceDepth = 0;
+	for (let ii = 0; ii < glob.length; ++ii) {
+		const char = glob[ii]!;
+		switch (char) {
+			case "*":
+				if (glob[ii + 1] === "*") {
+					// "**/" matches zero or more directories, "**" at the end matches anything
+					ii += 1;
+					if (glob[ii + 1] === "/" || glob[ii + 1] === "\\") {
+						ii += 1;
+						pattern += `(?:.*${separator})?`;
+					} else {
+						pattern += ".*";
+					}
+				} else {
+					pattern += `${notSeparator}*`;
+				}
+				break;
+
+			case "?":
+				pattern += notSeparator;
+				break;
+
+			case "[": {
+				const end = glob.indexOf("]", ii + 1);
+				if (end === -1) {
+					pattern += "\\[";
+				} else {
+					const body = glob.slice(ii + 1, end).replace(/^!/, "^").replaceAll("\\", "\\\\");
+					pattern += `[${body}]`;
+					ii = end;
+				}
+				break;
+			}
+
+			case "{":
+				++braceDepth;
+				pattern += "(?:";
+				break;
+
+			case "}":
+				if (braceDepth > 0) {
+					--braceDepth;
+					pattern += ")";
+				} else {
+					pattern += "\\}";
+				}
+				break;
+
+			case ",":
+				pattern += braceDepth > 0 ? "|" : ",";
+				break;
+
+			case "/":
+			case "\\":
+				pattern += separator;
+				break;
+
+			default:
+				pattern += char.replace(/[$()+.^|]/g, "\\$&");
+		}
+	}
+	return new RegExp(`^${pattern}$`);
+}
+
+function validateConfig(url: string, config: unknown): ResolvedConfig {
+	const fail = (message: string): never => {
+		throw new Error(`[hot] Invalid configuration in '${url}': ${message}`);
+	};
+	const isStringArray = (value: unknown) =>
+		Array.isArray(value) && value.every(element => typeof element === "string");
+	if (typeof config !== "object" || config === null) {
+		return fail("expected an object");
+	}
+	const { include, exclude, includeRoots, cache, debounce, logLevel, watcher, commonjs, jsx, plugins, formats, bindingSlots, unimportedAccept, acceptLazyImports, transactional, softRestart } = config as Record<keyof Config, unknown>;
+	if (include !== undefined && !isStringArray(include)) {
+		fail("`include` must be an array of strings");
+	}
+	if (exclude !== undefined && !isStringArray(exclude)) {
+		fail("`exclude` must be an array of strings");
+	}
+	if (includeRoots !== undefined && !isStringArray(includeRoots)) {
+		fail("`includeRoots` must be an array of strings");
+	}
+	if (cache !== undefined && typeof cache !== "boolean" && typeof cache !== "string") {
+		fail("`cache` must be a boolean or a string");
+	}
+	if (debounce !== undefined && !(typeof debounce === "number" && debounce >= 0)) {
+		fail("`debounce` must be a non-negative number");
+	}
+	if (logLevel !== undefined && logLevel !== "error" && logLevel !== "info") {
+		fail("`logLevel` must be one of: \"error\", \"info\"");
+	}
+	if (watcher !== undefined && watcher !== "native" && watcher !== "none" && watcher !== "poll") {
+		fail("`watcher` must be one of: \"native\", \"none\", \"poll\"");
+	}
+	if (commonjs !== undefined && typeof commonjs !== "boolean") {
+		fail("`commonjs` must be a boolean");
+	}
+	if (jsx !== undefined && typeof jsx !== "boolean") {
+		if (typeof jsx !== "object" || jsx === null) {
+			fail("`jsx` must be a boolean or an object");
+		}
+		const { importSource } = jsx as Record<keyof JsxOptions, unknown>;
+		if (importSource !== undefined && typeof importSource !== "string") {
+			fail("`jsx.importSource` must be a string");
+		}
+	}
+	if (plugins !== undefined && !Array.isArray(plugins)) {
+		fail("`plugins` must be an array");
+	}
+	if (bindingSlots !== undefined && typeof bindingSlots !== "boolean") {
+		fail("`bindingSlots` must be a boolean");
+	}
+	if (unimportedAccept !== undefined && unimportedAccept !== "error" && unimportedAccept !== "ignore" && unimportedAccept !== "warn") {
+		fail("`unimportedAccept` must be one of: \"error\", \"ignore\", \"warn\"");
+	}
+	if (acceptLazyImports !== undefined && typeof acceptLazyImports !== "boolean") {
+		fail("`acceptLazyImports` must be a boolean");
+	}
+	if (transactional !== undefined && typeof transactional !== "boolean") {
+		fail("`transactional` must be a boolean");
+	}
+	if (softRestart !== undefined && typeof softRestart !== "boolean") {
+		fail("`softRestart` must be a boolean");
+	}
+	if (formats !== undefined) {
+		if (!Array.isArray(formats)) {
+			fail("`formats` must be an array");
+		}
+		for (const format of formats as unknown[]) {
+			if (typeof format !== "object" || format === null) {
+				fail("`formats` must contain objects");
+			}
+			const { extensions, type, load } = format as Record<keyof FormatHandler, unknown>;
+			if (typeof load !== "function") {
+				fail("format `load` must be a function");
+			}
+			if (extensions !== undefined && !isStringArray(extensions)) {
+				fail("format `extensions` must be an array of strings");
+			}
+			if (type !== undefined && typeof type !== "string") {
+				fail("format `type` must be a string");
+			}
+			if (extensions === undefined && type === undefined) {
+				fail("format must specify `extensions` or `type`");
+			}
+		}
+	}
+	return { ...config as Config, url };
+}
+
+async function exists(file: string) {
+	try {
+		await fs.access(file);
+		return true;
+	} catch {
+		return false;
+	}
+}
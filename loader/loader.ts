@@ -1,23 +1,132 @@
-import type { Format, NodeLoad, NodeResolve } from "./node-loader.js";
+import type { JsxOptions, LogLevel, UnimportedAccept, WatcherMode } from "./config.js";
+import type { Format, NodeInitialize, NodeLoad, NodeResolve } from "./node-loader.js";
+import type { PluginItem } from "@babel/core";
 import * as assert from "node:assert/strict";
 import { Buffer } from "node:buffer";
 import * as fs from "node:fs/promises";
+import Module from "node:module";
+import * as path from "node:path";
+import { fileURLToPath } from "node:url";
 import convertSourceMap from "convert-source-map";
 import Fn from "dynohot/functional";
+import { makeCacheKey, makePluginsKey, makeTransformCache, nullCache, resolvePackageVersion } from "./cache.js";
+import { loadConfig, makeFormatLookup, makeIgnorePredicate, resolveCacheDirectory } from "./config.js";
 import { transformModuleSource } from "./transform.js";
 
 export type { Hot } from "dynohot/hot";
 
-const self = new URL(import.meta.url);
-const ignoreString = self.searchParams.get("ignore");
-const ignorePattern = ignoreString === null ? /[/\\]node_modules[/\\]/ : new RegExp(ignoreString);
+/**
+ * Options passed to the loader via the `data` parameter of `module.register`. See:
+ * `dynohot/register`. These take precedence over the project configuration file.
+ */
+export interface LoaderParameters {
+	/**
+	 * Modules whose URL matches this pattern will not participate in hot reloading. If specified,
+	 * `include` and `exclude` from the project configuration are not used. The pattern is tested
+	 * against the real path of modules in `includeRoots`.
+	 * Default: `/[/\\]node_modules[/\\]/`
+	 */
+	ignore?: RegExp | undefined;
+
+	/** See: `Config["cache"]` */
+	cache?: boolean | string | undefined;
+
+	/**
+	 * Number of milliseconds to wait after a file change before dispatching an update.
+	 * Default: 100
+	 */
+	debounce?: number | undefined;
+
+	/** See: `Config["logLevel"]` */
+	logLevel?: LogLevel | undefined;
+
+	/** See: `Config["watcher"]` */
+	watcher?: WatcherMode | undefined;
+
+	/** See: `Config["commonjs"]` */
+	commonjs?: boolean | undefined;
+
+	/** See: `Config["jsx"]` */
+	jsx?: boolean | JsxOptions | undefined;
+
+	/** See: `Config["bindingSlots"]` */
+	bindingSlots?: boolean | undefined;
+
+	/** See: `Config["unimportedAccept"]` */
+	unimportedAccept?: UnimportedAccept | undefined;
 
+	/** See: `Config["acceptLazyImports"]` */
+	acceptLazyImports?: boolean | undefined;
+
+	/** See: `Config["transactional"]` */
+	transactional?: boolean | undefined;
+
+	/** See: `Config["softRestart"]` */
+	softRestart?: boolean | undefined;
+}
+
+const self = new URL(import.meta.url);
 const root = String(new URL("..", self));
-const runtimeURL = `${root}runtime/runtime.js`;
 
-type ImportAssertions = Record<string, string>;
+// `dynohot.config.js` or the "dynohot" field in `package.json`
+const config = await loadConfig();
+
+// Defaults are read from the query string for `--loader dynohot?ignore=...`. These are overwritten
+// by `initialize` if the loader was registered with `module.register`.
+let isIgnored = makeIgnorePredicate(config, function() {
+	const ignoreString = self.searchParams.get("ignore");
+	return ignoreString === null ? undefined : new RegExp(ignoreString);
+}());
+let runtimeURL = makeRuntimeURL({});
+let cache = makeCache(undefined);
+let reloadCommonJS = config?.commonjs ?? false;
+let jsxImportSource = makeJsxImportSource(config?.jsx);
+let bindingSlots = config?.bindingSlots ?? false;
+let unimportedAccept = config?.unimportedAccept ?? "warn";
+let acceptLazyImports = config?.acceptLazyImports ?? false;
+let transactional = config?.transactional ?? false;
+
+function makeJsxImportSource(jsx: boolean | JsxOptions | undefined) {
+	if (jsx === undefined || jsx === false) {
+		return undefined;
+	}
+	return jsx === true ? "react" : jsx.importSource ?? "react";
+}
+
+// User-supplied Babel plugins are part of the transformation cache key
+const transformOptions = {
+	plugins: config?.plugins,
+	cwd: config === undefined ? undefined : path.dirname(fileURLToPath(config.url)),
+};
+const pluginsKey = await makePluginsKey(config?.plugins ?? [], transformOptions.cwd ?? process.cwd());
+const findFormat = makeFormatLookup(config);
 
-function extractImportAssertions(params: URLSearchParams): ImportAssertions {
+function makeCache(setting: boolean | string | undefined) {
+	const directory = resolveCacheDirectory(config, setting);
+	return directory === undefined ? nullCache : makeTransformCache(directory);
+}
+
+// The runtime lives in the main thread, so it receives its options through the module URL.
+function makeRuntimeURL(parameters: LoaderParameters) {
+	const debounce = parameters.debounce ?? config?.debounce;
+	const logLevel = parameters.logLevel ?? config?.logLevel;
+	const watcher = parameters.watcher ?? config?.watcher;
+	const transactional = parameters.transactional ?? config?.transactional;
+	const softRestart = parameters.softRestart ?? config?.softRestart;
+	const params = new URLSearchParams([
+		...debounce === undefined ? [] : [ [ "debounce", String(debounce) ] ],
+		...logLevel === undefined ? [] : [ [ "logLevel", logLevel ] ],
+		...watcher === undefined ? [] : [ [ "watcher", watcher ] ],
+		...transactional === undefined ? [] : [ [ "transactional", String(transactional) ] ],
+		...softRestart === undefined ? [] : [ [ "softRestart", String(softRestart) ] ],
+	] as [ string, string ][]);
+	const search = String(params);
+	return `${root}runtime/runtime.js${search === "" ? "" : `?${search}`}`;
+}
+
+type ImportAttributes = Record<string, string>;
+
+function extractImportAttributes(params: URLSearchParams): ImportAttributes {
 	const entries = Array.from(Fn.transform(
 		Fn.filter(params, entry => entry[0] === "with"),
 		entry => new URLSearchParams(entry[1])));
@@ -25,30 +134,170 @@ function extractImportAssertions(params: URLSearchParams): ImportAssertions {
 	return Object.fromEntries(entries);
 }
 
-const makeAdapterModule = (url: string, importAssertions: ImportAssertions) => {
+interface ImportAttributesContext {
+	importAttributes?: ImportAttributes;
+	importAssertions?: ImportAttributes;
+}
+
+// nodejs v20.10.0 renamed `importAssertions` to `importAttributes` along with the `assert` -> `with`
+// syntax change, and v22 removed the old spellings entirely. Hosts which understand the new name
+// always pass it on the hook context, so that's used to decide which spelling to send back.
+function supportsImportAttributes(context: ImportAttributesContext) {
+	return "importAttributes" in context;
+}
+
+function makeImportAttributes(context: ImportAttributesContext, importAttributes: ImportAttributes): ImportAttributesContext {
+	return supportsImportAttributes(context) ? { importAttributes } : { importAssertions: importAttributes };
+}
+
+const makeAdapterModule = (url: string, importAttributes: ImportAttributes, context: ImportAttributesContext) => {
 	const encodedURL = JSON.stringify(url);
+	const keyword = supportsImportAttributes(context) ? "with" : "assert";
+	const attributes = Object.keys(importAttributes).length === 0 ? "" : ` ${keyword} ${JSON.stringify(importAttributes)}`;
 	return (
 	// eslint-disable-next-line @typescript-eslint/indent
-`import * as namespace from ${encodedURL} assert ${JSON.stringify(importAssertions)};
+`import * as namespace from ${encodedURL}${attributes};
 import { adapter } from "hot:runtime";
 const module = adapter(${encodedURL}, namespace);
 export default function() { return module; };\n`
 	);
 };
 
-const makeJsonModule = (url: string, json: string, importAssertions: ImportAssertions) =>
+// JSON, text, and bytes modules have a single default export which is computed from the source
+const makeDefaultExportModule = (url: string, format: Format, expression: string, importAttributes: ImportAttributes) =>
 // eslint-disable-next-line @typescript-eslint/indent
 `import { acquire } from "hot:runtime"
 function* execute() {
-	yield [ () => {}, { default: () => json } ];
-	const json = JSON.parse(${JSON.stringify(json)});
+	yield [ () => {}, { default: () => value } ];
+	const value = ${expression};
+}
+export default function module() {
+	return acquire(${JSON.stringify(url)}, execute);
+}
+module().load({ async: false, execute }, null, false, ${JSON.stringify(format)}, ${JSON.stringify(importAttributes)}, []);\n`;
+
+const makeJsonModule = (url: string, json: string, importAttributes: ImportAttributes) =>
+	makeDefaultExportModule(url, "json", `JSON.parse(${JSON.stringify(json)})`, importAttributes);
+
+const makeTextModule = (url: string, text: string, importAttributes: ImportAttributes) =>
+	makeDefaultExportModule(url, "module", JSON.stringify(text), importAttributes);
+
+const decodeBase64Expression = (bytes: Buffer) =>
+	`Uint8Array.from(atob(${JSON.stringify(bytes.toString("base64"))}), char => char.charCodeAt(0))`;
+
+const makeBytesModule = (url: string, bytes: Buffer, importAttributes: ImportAttributes) =>
+	makeDefaultExportModule(url, "module", decodeBase64Expression(bytes), importAttributes);
+
+// WebAssembly modules are converted to JavaScript which instantiates the module. The result is
+// transformed like any other module, so imports and exports of the WebAssembly module participate
+// in hot reloading. The compiled `WebAssembly.Module` is the module source, for `import source`.
+const makeWasmModuleSource = (bytes: Buffer) => {
+	const module = new WebAssembly.Module(bytes);
+	const specifiers = Array.from(new Set(Fn.map(WebAssembly.Module.imports(module), entry => entry.module)));
+	const exports = WebAssembly.Module.exports(module);
+	const source = [
+		...specifiers.map((specifier, ii) => `import * as import${ii} from ${JSON.stringify(specifier)};`),
+		`const wasmImports = { ${specifiers.map((specifier, ii) => `${JSON.stringify(specifier)}: import${ii}`).join(", ")} };`,
+		"const wasmExports = new WebAssembly.Instance(moduleSource, wasmImports).exports;",
+		...exports.map((entry, ii) => `const export${ii} = wasmExports[${JSON.stringify(entry.name)}];`),
+		`export { ${exports.map((entry, ii) => `export${ii} as ${JSON.stringify(entry.name)}`).join(", ")} };`,
+	].join("\n");
+	const moduleSource = `new WebAssembly.Module(${decodeBase64Expression(bytes)})`;
+	return { source, moduleSource };
+};
+
+const isWasm = (url: string, format: Format | null | undefined) =>
+	format === "wasm" || new URL(url).pathname.endsWith(".wasm");
+
+// CommonJS modules are imported natively and re-exported by a reloadable module. The runtime evicts
+// the module from `require.cache` before each reload, and the version in the query string makes
+// nodejs import it again.
+const makeCommonJSModule = (url: string, version: string | null, importAttributes: ImportAttributes) => {
+	const importURL = new URL(url);
+	if (version !== null) {
+		importURL.searchParams.set("hot", version);
+	}
+	return (
+	// eslint-disable-next-line @typescript-eslint/indent
+`import * as namespace from ${JSON.stringify(String(importURL))};
+import { acquire } from "hot:runtime"
+function* execute() {
+	yield [ () => {}, Object.fromEntries(Object.keys(namespace).map(key => [ key, () => namespace[key] ])) ];
 }
 export default function module() {
 	return acquire(${JSON.stringify(url)}, execute);
 }
-module().load({ async: false, execute }, null, false, "json", ${JSON.stringify(importAssertions)}, []);\n`;
+module().load({ async: false, execute }, null, false, "commonjs", ${JSON.stringify(importAttributes)}, []);\n`
+	);
+};
+
+type StripTypeScriptTypes = (code: string, options?: {
+	mode?: "strip" | "transform";
+	sourceMap?: boolean;
+	sourceUrl?: string;
+}) => string;
+
+// Available in nodejs v22.13.0 and later. Earlier versions which report "module-typescript" don't
+// expose their type stripper, so types are removed by Babel instead. Without the optional Babel
+// plugin those modules are loaded as adapters.
+const stripTypeScriptTypes = (Module as { stripTypeScriptTypes?: StripTypeScriptTypes }).stripTypeScriptTypes;
+
+// `--experimental-transform-types` enables TypeScript-only features like `enum`, which require a
+// real transformation. Otherwise types are replaced with whitespace, which preserves all source
+// locations, so no additional source map is needed.
+const transformTypes = [ ...process.execArgv, process.env.NODE_OPTIONS ?? "" ].some(
+	arg => arg.includes("--experimental-transform-types"));
+
+function stripTypes(url: string, source: string) {
+	assert.ok(stripTypeScriptTypes !== undefined);
+	if (transformTypes) {
+		// The inline source map is picked up by `makeReloadableModule`
+		return stripTypeScriptTypes(source, { mode: "transform", sourceMap: true, sourceUrl: url });
+	} else {
+		return stripTypeScriptTypes(source, { mode: "strip" });
+	}
+}
+
+// Files compiled by the `jsx` option
+type Syntax = "jsx" | "ts" | "tsx";
+
+function syntaxOf(url: string): Syntax | undefined {
+	const extension = /\.(jsx|mts|ts|tsx)$/.exec(new URL(url).pathname)?.[1];
+	return extension === "mts" ? "ts" : extension as Syntax | undefined;
+}
+
+// These are optional dependencies, so they're only imported if the `jsx` option is used, or if
+// nodejs doesn't provide `stripTypeScriptTypes`
+let typescriptPlugin: Promise<PluginItem> | undefined;
+let reactPlugin: Promise<PluginItem> | undefined;
+const importTypescriptPlugin = () => typescriptPlugin ??= import("@babel/plugin-transform-typescript").then(module => module.default);
+const importReactPlugin = () => reactPlugin ??= import("@babel/plugin-transform-react-jsx").then(module => module.default);
+const hasTypescriptPlugin = () => importTypescriptPlugin().then(() => true, () => false);
+
+// Versions of the syntax plugins are part of the transformation cache key
+let syntaxPluginsKey: Promise<string[]> | undefined;
+const makeSyntaxPluginsKey = () => syntaxPluginsKey ??= Promise.all(Fn.map(
+	[ "@babel/plugin-transform-react-jsx", "@babel/plugin-transform-typescript" ],
+	specifier => resolvePackageVersion(specifier, path.dirname(fileURLToPath(import.meta.url)))));
+
+async function makeSyntaxPlugins(syntax: Syntax, importSource: string | undefined): Promise<PluginItem[]> {
+	return [
+		...syntax === "jsx" ? [] : [ [ await importTypescriptPlugin(), { allowDeclareFields: true, isTSX: syntax === "tsx" } ] ],
+		...syntax === "ts" ? [] : [ [ await importReactPlugin(), { importSource, runtime: "automatic" } ] ],
+	];
+}
 
-const makeReloadableModule = async (url: string, source: string, importAssertions: ImportAssertions) => {
+const makeReloadableModule = async (
+	url: string,
+	format: Format,
+	originalSource: string,
+	importAttributes: ImportAttributes,
+	options: { moduleSource?: string; syntax?: Syntax } = {},
+) => {
+	const { moduleSource } = options;
+	const nativeTypes = format === "module-typescript" && stripTypeScriptTypes !== undefined;
+	const source = nativeTypes ? stripTypes(url, originalSource) : originalSource;
+	const syntax = options.syntax ?? (format === "module-typescript" && !nativeTypes ? "ts" : undefined);
 	const sourceMap = await async function() {
 		try {
 			const map = convertSourceMap.fromComment(source);
@@ -61,6 +310,27 @@ const makeReloadableModule = async (url: string, source: string, importAssertion
 			return map?.toObject();
 		} catch {}
 	}();
+	// Skip the transformation entirely if this exact source has been seen before
+	const importSource = syntax === undefined ? undefined : jsxImportSource;
+	const syntaxKey = syntax === undefined ? undefined : [ syntax, importSource, await makeSyntaxPluginsKey() ];
+	const key = makeCacheKey(url, format, importAttributes, source, sourceMap, pluginsKey, syntaxKey, moduleSource, bindingSlots, unimportedAccept, acceptLazyImports, transactional);
+	const transformed = await cache.get(key) ?? await async function() {
+		// Syntax plugins run after user plugins, like presets in a Babel configuration
+		const options = {
+			...transformOptions,
+			acceptLazyImports,
+			bindingSlots,
+			moduleSource,
+			transactional,
+			unimportedAccept,
+			...syntax !== undefined && {
+				plugins: [ ...transformOptions.plugins ?? [], ...await makeSyntaxPlugins(syntax, importSource) ],
+			},
+		};
+		const transformed = transformModuleSource(url, importAttributes, source, sourceMap, format, options);
+		await cache.set(key, transformed);
+		return transformed;
+	}();
 	// Loaders earlier in the chain are allowed to overwrite `responseURL`, which is fine, but we
 	// need to notate this in the runtime. `responseURL` can be anything, doesn't have to be unique,
 	// and is observable via `import.meta.url` and stack traces [unless there is a source map]. On
@@ -69,7 +339,7 @@ const makeReloadableModule = async (url: string, source: string, importAssertion
 	// source as a post-transformation process.
 	return (
 	// eslint-disable-next-line @typescript-eslint/indent
-`${transformModuleSource(url, importAssertions, source, sourceMap)}
+`${transformed}
 export default function module() { return acquire(${JSON.stringify(url)}); }\n`
 	);
 };
@@ -99,6 +369,18 @@ function maybeThen<Type, Result>(
 	}
 }
 
+function asBuffer(sourceText: ArrayBuffer | Uint8Array | string) {
+	if (sourceText instanceof Buffer) {
+		return sourceText;
+	} else if (typeof sourceText === "string") {
+		return Buffer.from(sourceText, "utf8");
+	} else if (sourceText instanceof Uint8Array) {
+		return Buffer.from(sourceText.buffer, sourceText.byteOffset, sourceText.byteLength);
+	} else {
+		return Buffer.from(sourceText);
+	}
+}
+
 function asString(sourceText: ArrayBuffer | Uint8Array | string) {
 	if (sourceText instanceof Buffer) {
 		return sourceText.toString("utf8");
@@ -109,6 +391,33 @@ function asString(sourceText: ArrayBuffer | Uint8Array | string) {
 	}
 }
 
+/** @internal */
+export const initialize: NodeInitialize<LoaderParameters | undefined> = parameters => {
+	// `data` is undefined when the loader is registered via `--loader`
+	if (parameters !== undefined) {
+		if (parameters.ignore !== undefined) {
+			assert.ok(parameters.ignore instanceof RegExp, "`ignore` must be a `RegExp`");
+			isIgnored = makeIgnorePredicate(config, parameters.ignore);
+		}
+		assert.ok(parameters.debounce === undefined || parameters.debounce >= 0, "`debounce` must be a non-negative number");
+		assert.ok(parameters.logLevel === undefined || [ "error", "info" ].includes(parameters.logLevel), "`logLevel` must be one of: \"error\", \"info\"");
+		assert.ok(parameters.unimportedAccept === undefined || [ "error", "ignore", "warn" ].includes(parameters.unimportedAccept), "`unimportedAccept` must be one of: \"error\", \"ignore\", \"warn\"");
+		assert.ok(parameters.watcher === undefined || [ "native", "none", "poll" ].includes(parameters.watcher), "`watcher` must be one of: \"native\", \"none\", \"poll\"");
+		runtimeURL = makeRuntimeURL(parameters);
+		if (parameters.cache !== undefined) {
+			cache = makeCache(parameters.cache);
+		}
+		reloadCommonJS = parameters.commonjs ?? reloadCommonJS;
+		if (parameters.jsx !== undefined) {
+			jsxImportSource = makeJsxImportSource(parameters.jsx);
+		}
+		bindingSlots = parameters.bindingSlots ?? bindingSlots;
+		unimportedAccept = parameters.unimportedAccept ?? unimportedAccept;
+		acceptLazyImports = parameters.acceptLazyImports ?? acceptLazyImports;
+		transactional = parameters.transactional ?? transactional;
+	}
+};
+
 /** @internal */
 export const resolve: NodeResolve = (specifier, context, nextResolve) => {
 	// Forward root module to "hot:main"
@@ -126,12 +435,12 @@ export const resolve: NodeResolve = (specifier, context, nextResolve) => {
 		const resolutionURL = new URL(specifier);
 		const resolutionSpecifier = resolutionURL.searchParams.get("specifier");
 		assert.ok(resolutionSpecifier !== null);
-		const importAssertions = extractImportAssertions(resolutionURL.searchParams);
+		const importAttributes = extractImportAttributes(resolutionURL.searchParams);
 		return maybeThen(
 			nextResolve(resolutionSpecifier, {
 				...context,
+				...makeImportAttributes(context, importAttributes),
 				parentURL: parentModuleURL,
-				importAssertions,
 			}),
 			result => {
 				const params = new URLSearchParams([
@@ -140,7 +449,7 @@ export const resolve: NodeResolve = (specifier, context, nextResolve) => {
 				]);
 				return {
 					...result,
-					importAssertions: {},
+					...makeImportAttributes(context, {}),
 					url: `hot:module?${String(params)}`,
 				};
 			});
@@ -151,12 +460,12 @@ export const resolve: NodeResolve = (specifier, context, nextResolve) => {
 		assert.ok(resolutionSpecifier !== null);
 		const parentModuleURL = resolutionURL.searchParams.get("parent");
 		assert.ok(parentModuleURL !== null);
-		const importAssertions = extractImportAssertions(resolutionURL.searchParams);
+		const importAttributes = extractImportAttributes(resolutionURL.searchParams);
 		return maybeThen(
 			nextResolve(resolutionSpecifier, {
 				...context,
+				...makeImportAttributes(context, importAttributes),
 				parentURL: parentModuleURL,
-				importAssertions,
 			}),
 			result => {
 				const params = new URLSearchParams([
@@ -165,7 +474,7 @@ export const resolve: NodeResolve = (specifier, context, nextResolve) => {
 				]);
 				return {
 					...result,
-					importAssertions: {},
+					...makeImportAttributes(context, {}),
 					url: `hot:module?${String(params)}`,
 				};
 			});
@@ -207,13 +516,13 @@ export const load: NodeLoad = (urlString, context, nextLoad) => {
 		const url = new URL(urlString);
 		switch (url.pathname) {
 			case "adapter": {
-				const importAssertions = extractImportAssertions(url.searchParams);
+				const importAttributes = extractImportAttributes(url.searchParams);
 				const moduleURL = url.searchParams.get("url");
 				assert.ok(moduleURL);
 				return {
 					shortCircuit: true,
 					format: "module",
-					source: makeAdapterModule(moduleURL, importAssertions),
+					source: makeAdapterModule(moduleURL, importAttributes, context),
 				};
 			}
 
@@ -233,20 +542,74 @@ export const load: NodeLoad = (urlString, context, nextLoad) => {
 			case "module": return async function() {
 				const moduleURL = url.searchParams.get("url");
 				assert.ok(moduleURL);
-				const importAssertions = extractImportAssertions(url.searchParams);
+				const importAttributes = extractImportAttributes(url.searchParams);
+				// Formats from the configuration. nodejs can't load these on its own, so they are
+				// always reloadable, even if they would otherwise be ignored.
+				const format = findFormat(moduleURL, importAttributes);
+				const syntax = jsxImportSource === undefined ? undefined : syntaxOf(moduleURL);
+				if (format !== undefined) {
+					const result = await nextLoad(moduleURL, {
+						...context,
+						...makeImportAttributes(context, {}),
+						format: "module",
+					});
+					const moduleSource = await format.load(asString(result.source), moduleURL);
+					const source = await makeReloadableModule(moduleURL, "module", moduleSource, importAttributes);
+					return { ...result, format: "module", source };
+				} else if (importAttributes.type === "text" || importAttributes.type === "bytes") {
+					// Same here, `with { type: "text" }` and `with { type: "bytes" }` are read as-is
+					const result = await nextLoad(moduleURL, {
+						...context,
+						...makeImportAttributes(context, {}),
+						format: "module",
+					});
+					const source = importAttributes.type === "text"
+						? makeTextModule(moduleURL, asString(result.source), importAttributes)
+						: makeBytesModule(moduleURL, asBuffer(result.source), importAttributes);
+					return { ...result, format: "module", source };
+				} else if (syntax !== undefined && !isIgnored(moduleURL)) {
+					// JSX and TypeScript are compiled by Babel, which nodejs might not support
+					const result = await nextLoad(moduleURL, {
+						...context,
+						...makeImportAttributes(context, {}),
+						format: "module",
+					});
+					const source = await makeReloadableModule(moduleURL, "module", asString(result.source), importAttributes, { syntax });
+					return { ...result, format: "module", source };
+				} else if (isWasm(moduleURL, context.format) && !isIgnored(moduleURL)) {
+					// nodejs only loads WebAssembly with `--experimental-wasm-modules`, so the binary
+					// is read as-is and instantiated by the generated module.
+					const result = await nextLoad(moduleURL, {
+						...context,
+						...makeImportAttributes(context, {}),
+						format: "module",
+					});
+					const wasm = makeWasmModuleSource(asBuffer(result.source));
+					const source = await makeReloadableModule(moduleURL, "wasm", wasm.source, importAttributes, { moduleSource: wasm.moduleSource });
+					return { ...result, format: "module", source };
+				}
 				const result = await nextLoad(moduleURL, {
 					...context,
-					importAssertions,
+					...makeImportAttributes(context, importAttributes),
 				});
-				if (!ignorePattern.test(moduleURL)) {
-					if (result.format === "module") {
-						const source = await makeReloadableModule(moduleURL, asString(result.source), importAssertions);
-						return { ...result, source };
+				if (!isIgnored(moduleURL)) {
+					if (
+						result.format === "module" ||
+						(result.format === "module-typescript" && (stripTypeScriptTypes !== undefined || await hasTypescriptPlugin()))
+					) {
+						const source = await makeReloadableModule(moduleURL, result.format, asString(result.source), importAttributes);
+						return { ...result, format: "module", source };
+					} else if (result.format === "commonjs" && reloadCommonJS && moduleURL.startsWith("file:")) {
+						return {
+							...result,
+							format: "module",
+							source: makeCommonJSModule(moduleURL, url.searchParams.get("version"), importAttributes),
+						};
 					} else if (result.format === "json") {
 						return {
 							...result,
 							format: "module",
-							source: makeJsonModule(moduleURL, asString(result.source), importAssertions),
+							source: makeJsonModule(moduleURL, asString(result.source), importAttributes),
 						};
 					}
 				}
@@ -254,7 +617,7 @@ export const load: NodeLoad = (urlString, context, nextLoad) => {
 				// Otherwise this is an adapter module
 				return {
 					format: "module",
-					source: makeAdapterModule(moduleURL, importAssertions),
+					source: makeAdapterModule(moduleURL, importAttributes, context),
 				};
 			}();
 
@@ -5,20 +5,26 @@ interface ResolveContext {
 	/** Export conditions of the relevant `package.json` */
 	conditions: string[];
 
-	/** An object whose key-value pairs represent the assertions for the module to import */
-	importAssertions: Record<string, string>;
+	/** An object whose key-value pairs represent the attributes for the module to import */
+	importAttributes?: Record<string, string>;
+
+	/** @deprecated Renamed to `importAttributes` in nodejs v20.10.0, removed in v22 */
+	importAssertions?: Record<string, string>;
 
 	/** The module importing this one, or undefined if this is the Node.js entry point */
 	parentURL: string | undefined;
 }
 
-export type Format = "builtin" | "commonjs" | "json" | "module" | "wasm";
+export type Format = "builtin" | "commonjs" | "commonjs-typescript" | "json" | "module" | "module-typescript" | "wasm";
 
 interface ResolveResult {
 	/** A hint to the load hook (it might be ignored) */
 	format?: Format | null | undefined;
 
-	/** The import assertions to use when caching the module (optional; if excluded the input will be used) */
+	/** The import attributes to use when caching the module (optional; if excluded the input will be used) */
+	importAttributes?: Record<string, string>;
+
+	/** @deprecated Renamed to `importAttributes` in nodejs v20.10.0, removed in v22 */
 	importAssertions?: Record<string, string>;
 
 	/** A signal that this hook intends to terminate the chain of resolve hooks. Default: false */
@@ -40,7 +46,11 @@ interface LoadContext {
 	/** The format optionally supplied by the resolve hook chain */
 	format?: Format | null | undefined;
 
-	importAssertions: Record<string, string>;
+	/** An object whose key-value pairs represent the attributes for the module to import */
+	importAttributes?: Record<string, string>;
+
+	/** @deprecated Renamed to `importAttributes` in nodejs v20.10.0, removed in v22 */
+	importAssertions?: Record<string, string>;
 }
 
 interface LoadResult {
@@ -57,6 +67,9 @@ type NextLoad = (urlString: string, context: LoadContext) => MaybePromiseLike<Lo
 
 export type NodeLoad = (urlString: string, context: LoadContext, nextLoad: NextLoad) => MaybePromiseLike<LoadResult>;
 
+// https://nodejs.org/api/module.html#initialize
+export type NodeInitialize<Data = unknown> = (data: Data) => MaybePromise<void>;
+
 interface GlobalPreloadContext {
 	port: MessagePort;
 }
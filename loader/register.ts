@@ -0,0 +1,13 @@
+import type { LoaderParameters } from "./loader.js";
+import Module from "node:module";
+
+/**
+ * Register the dynohot loader in the current process with the given options. This must be invoked
+ * before any reloadable modules are imported, for example from a script passed to `--import`.
+ */
+export function register(parameters: LoaderParameters = {}) {
+	Module.register("./loader.js", {
+		parentURL: import.meta.url,
+		data: parameters,
+	});
+}
@@ -0,0 +1,126 @@
+import type { SourceMapInput } from "@jridgewell/trace-mapping";
+import * as assert from "node:assert/strict";
+import { GenMapping, maybeAddSegment, setSourceContent, toEncodedMap } from "@jridgewell/gen-mapping";
+import { TraceMap, traceSegment } from "@jridgewell/trace-mapping";
+
+/**
+ * Replaces the text in `[start, end)` of the original source with `text`. An edit where `start`
+ * and `end` are the same is an insertion.
+ * @internal
+ */
+export interface Edit {
+	readonly start: number;
+	readonly end: number;
+	readonly text: string;
+}
+
+// Source map segments are emitted at the start of each word and run of punctuation in unchanged
+// text, which is enough to locate any call or property access in a stack trace.
+const boundaryExpression = /[\w$]+|[^\s\w$]+/g;
+
+/**
+ * Applies `edits` to `sourceText`, and wraps the result in `prefix` and `suffix`. Text which isn't
+ * touched by an edit is copied verbatim, so formatting and line numbers are preserved. The returned
+ * source map points at `filename`, or through `inputSourceMap` if `sourceText` was itself
+ * generated.
+ * @internal
+ */
+export function spliceSource(
+	filename: string,
+	sourceText: string,
+	edits: readonly Edit[],
+	prefix: string,
+	suffix: string,
+	inputSourceMap?: unknown,
+) {
+	const map = new GenMapping();
+	const tracer = inputSourceMap == null ? undefined : new TraceMap(inputSourceMap as SourceMapInput);
+	if (tracer?.sourcesContent) {
+		for (const [ ii, content ] of tracer.sourcesContent.entries()) {
+			setSourceContent(map, tracer.resolvedSources[ii]!, content);
+		}
+	}
+
+	// Position in the generated text
+	const chunks: string[] = [];
+	let generatedLine = 0;
+	let generatedColumn = 0;
+	const append = (text: string) => {
+		chunks.push(text);
+		const newline = text.lastIndexOf("\n");
+		if (newline === -1) {
+			generatedColumn += text.length;
+		} else {
+			generatedLine += text.split("\n").length - 1;
+			generatedColumn = text.length - newline - 1;
+		}
+	};
+
+	// Position in the original text. Offsets only ever increase, so this is just a running cursor.
+	let originalLine = 0;
+	let originalLineStart = 0;
+	const locate = (offset: number) => {
+		let newline = sourceText.indexOf("\n", originalLineStart);
+		while (newline !== -1 && newline < offset) {
+			++originalLine;
+			originalLineStart = newline + 1;
+			newline = sourceText.indexOf("\n", originalLineStart);
+		}
+		return offset - originalLineStart;
+	};
+
+	// Map the current generated position to `offset` in the original text
+	const mark = (offset: number) => {
+		const column = locate(offset);
+		if (tracer === undefined) {
+			maybeAddSegment(map, generatedLine, generatedColumn, filename, originalLine, column);
+		} else {
+			const segment = traceSegment(tracer, originalLine, column);
+			if (segment !== null && segment.length !== 1) {
+				const source = tracer.resolvedSources[segment[1]]!;
+				if (segment.length === 5) {
+					maybeAddSegment(map, generatedLine, generatedColumn, source, segment[2], segment[3], tracer.names[segment[4]]!);
+				} else {
+					maybeAddSegment(map, generatedLine, generatedColumn, source, segment[2], segment[3]);
+				}
+			}
+		}
+	};
+
+	// Copy unchanged text, marking each boundary
+	const copy = (start: number, end: number) => {
+		const text = sourceText.slice(start, end);
+		let offset = 0;
+		for (const match of text.matchAll(boundaryExpression)) {
+			const index = match.index!;
+			append(text.slice(offset, index));
+			mark(start + index);
+			append(match[0]);
+			offset = index + match[0].length;
+		}
+		append(text.slice(offset));
+	};
+
+	append(prefix);
+	let offset = 0;
+	// Insertions go before a replacement which starts at the same offset. Otherwise edits at the
+	// same offset are applied in the order they were made.
+	const sortedEdits = [ ...edits ].sort((left, right) =>
+		left.start - right.start || (left.end - left.start) - (right.end - right.start));
+	for (const edit of sortedEdits) {
+		assert.ok(edit.start >= offset, "Overlapping edit");
+		copy(offset, edit.start);
+		if (edit.text !== "") {
+			mark(edit.start);
+			append(edit.text);
+		}
+		offset = edit.end;
+	}
+	copy(offset, sourceText.length);
+	append(suffix);
+
+	return {
+		code: chunks.join(""),
+		map: toEncodedMap(map),
+	};
+}
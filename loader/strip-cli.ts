@@ -0,0 +1,107 @@
+#!/usr/bin/env node
+import type { TransformOptions as BabelTransformOptions } from "@babel/core";
+import * as fs from "node:fs/promises";
+import * as path from "node:path";
+import { parseArgs } from "node:util";
+import { transformAsync } from "@babel/core";
+import convertSourceMap from "convert-source-map";
+import strip from "./strip.js";
+
+// Used as `dynohot-strip [--out-dir <directory>] <path>...`. Each file, or each `.js` and `.mjs`
+// file in a directory, is rewritten with `import.meta.hot` removed. Without `--out-dir` the files
+// are rewritten in place.
+
+const extensions = [ ".js", ".mjs" ];
+
+const usage = "Usage: dynohot-strip [--out-dir <directory>] <path>...";
+
+// Yields `[ input, output ]` filenames for each path on the command line
+async function *collect(paths: readonly string[], outDir: string | undefined): AsyncGenerator<[ string, string ]> {
+	for (const source of paths) {
+		const stats = await fs.stat(source);
+		if (stats.isDirectory()) {
+			const entries = await fs.readdir(source, { recursive: true, withFileTypes: true });
+			for (const entry of entries) {
+				if (entry.isFile() && extensions.includes(path.extname(entry.name))) {
+					// nb: `path` was renamed to `parentPath` in later versions of nodejs
+					const filename = path.join((entry as { parentPath?: string }).parentPath ?? entry.path, entry.name);
+					if (!filename.split(path.sep).includes("node_modules")) {
+						yield [ filename, outDir === undefined ? filename : path.join(outDir, path.relative(source, filename)) ];
+					}
+				}
+			}
+		} else {
+			yield [ source, outDir === undefined ? source : path.join(outDir, path.basename(source)) ];
+		}
+	}
+}
+
+async function stripFile(input: string, output: string) {
+	const sourceText = await fs.readFile(input, "utf8");
+	// Babel reads and removes the input source map comment, and the map is written back in the
+	// same style.
+	const inlineMap = convertSourceMap.commentRegex.test(sourceText);
+	const fileMap = !inlineMap && convertSourceMap.mapFileCommentRegex.test(sourceText);
+	const result = await transformAsync(sourceText, {
+		babelrc: false,
+		configFile: false,
+		filename: input,
+		parserOpts: {
+			plugins: [
+				"deferredImportEvaluation",
+				"explicitResourceManagement",
+				[ "importAttributes", { deprecatedAssertSyntax: true } ],
+				"sourcePhaseImports",
+			],
+		},
+		plugins: [ strip ],
+		retainLines: true,
+		sourceType: "module",
+		sourceMaps: inlineMap || fileMap,
+	} satisfies BabelTransformOptions);
+	if (result?.code == null) {
+		throw new Error(`Failed to transform ${input}`);
+	}
+	await fs.mkdir(path.dirname(output), { recursive: true });
+	let code = `${result.code}\n`;
+	if (result.map) {
+		// Sources are relative to the input map, and need to be relative to the output
+		const map = {
+			...result.map,
+			sources: result.map.sources.map(source =>
+				URL.canParse(source) ? source : path.relative(path.dirname(output), path.resolve(path.dirname(input), source))),
+		};
+		if (inlineMap) {
+			code += `${convertSourceMap.fromObject(map).toComment()}\n`;
+		} else {
+			await fs.writeFile(`${output}.map`, JSON.stringify(map));
+			code += `//# sourceMappingURL=${path.basename(output)}.map\n`;
+		}
+	}
+	await fs.writeFile(output, code);
+}
+
+const { positionals, values } = function() {
+	try {
+		return parseArgs({
+			allowPositionals: true,
+			options: {
+				"out-dir": { type: "string", short: "d" },
+			},
+		});
+	} catch (error) {
+		console.error(`${(error as Error).message}\n${usage}`);
+		process.exit(1);
+	}
+}();
+if (positionals.length === 0) {
+	console.error(usage);
+	process.exit(1);
+}
+
+let count = 0;
+for await (const [ input, output ] of collect(positionals, values["out-dir"])) {
+	await stripFile(input, output);
+	++count;
+}
+console.log(`[hot] Stripped ${count} ${count === 1 ? "file" : "files"}.`);
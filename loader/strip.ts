@@ -0,0 +1,247 @@
+import type { PluginObj, types } from "@babel/core";
+import type { NodePath } from "@babel/traverse";
+
+// Known value of an expression which was derived from `import.meta.hot`. `undefined` is the value
+// of `import.meta.hot` itself, or anything read from it, and booleans come from `!`.
+type KnownValue = boolean | undefined;
+
+/**
+ * Babel plugin which removes `import.meta.hot` and `import.meta.dynoHot` from a module, for
+ * production builds. Both are replaced with `undefined`, and the result is folded into the
+ * surrounding code: calls like `import.meta.hot?.accept()` are removed, branches which test
+ * `import.meta.hot` are replaced by the branch which would run, and `const` bindings which are
+ * initialized from `import.meta.hot` are inlined.
+ */
+export default function strip({ types: t }: { types: typeof types }): PluginObj {
+	// `import.meta.hot`, `import.meta.dynoHot`, or the computed equivalents
+	const isHotMember = (path: NodePath): path is NodePath<types.MemberExpression | types.OptionalMemberExpression> => {
+		if (!path.isMemberExpression() && !path.isOptionalMemberExpression()) {
+			return false;
+		}
+		const { object, property, computed } = path.node;
+		const name =
+			computed ? t.isStringLiteral(property) ? property.value : undefined :
+			t.isIdentifier(property) ? property.name : undefined;
+		return (
+			(name === "hot" || name === "dynoHot") &&
+			t.isMetaProperty(object) &&
+			object.meta.name === "import" &&
+			object.property.name === "meta"
+		);
+	};
+
+	// Anything read or called through `import.meta.hot` is dropped along with it. This includes
+	// non-optional chains, which would throw without dynohot anyway. Assignments stop the climb,
+	// since their right-hand side is kept.
+	const collapse = (path: NodePath) => {
+		let current = path;
+		for (;;) {
+			const { parentPath } = current;
+			if (parentPath === null) {
+				return current;
+			}
+			const { key } = current;
+			if (
+				((parentPath.isMemberExpression() || parentPath.isOptionalMemberExpression()) && key === "object") ||
+				((parentPath.isCallExpression() || parentPath.isOptionalCallExpression()) && key === "callee") ||
+				(parentPath.isUpdateExpression() && key === "argument") ||
+				(parentPath.isUnaryExpression({ operator: "delete" }) && key === "argument") ||
+				parentPath.isTSNonNullExpression()
+			) {
+				current = parentPath;
+			} else if (parentPath.isAssignmentExpression() && key === "left") {
+				return parentPath;
+			} else {
+				return current;
+			}
+		}
+	};
+
+	// A path is stale when it, or one of its ancestors, was removed or replaced by an earlier fold
+	const isAttached = (path: NodePath) => {
+		for (let current: NodePath | null = path; current !== null; current = current.parentPath) {
+			const { container, listKey, key, node, parentPath } = current;
+			if (current.removed || parentPath === null) {
+				return !current.removed;
+			}
+			// nb: `listKey` is `undefined`, not `null`, for nodes which aren't in a list
+			const parentContainer: unknown = typeof key === "number" ? (parentPath.node as any)[listKey!] : parentPath.node;
+			if (container !== parentContainer || key === null || (container as any)[key] !== node) {
+				return false;
+			}
+		}
+		return true;
+	};
+
+	// Replace an assignment to `import.meta.hot` with its right-hand side, which may have effects
+	const dropAssignment = (path: NodePath<types.AssignmentExpression>) => {
+		const right = path.get("right");
+		if (path.parentPath.isExpressionStatement() && right.isPure()) {
+			path.parentPath.remove();
+		} else {
+			path.replaceWith(right.node);
+		}
+	};
+
+	// Expression which recreates a known value, for inlined references
+	const makeKnownExpression = (value: KnownValue): types.Expression => {
+		const hot = t.memberExpression(t.metaProperty(t.identifier("import"), t.identifier("meta")), t.identifier("hot"));
+		return value === undefined ? hot : t.unaryExpression("!", value ? hot : t.unaryExpression("!", hot));
+	};
+
+	// Replace an `if` statement with the branch which would run
+	const replaceWithBranch = (path: NodePath<types.IfStatement>, branch: NodePath<types.Statement | null | undefined>) => {
+		const { node } = branch;
+		if (node == null) {
+			path.remove();
+		} else if (
+			t.isBlockStatement(node) &&
+			path.parentPath.isBlockParent() && Array.isArray(path.container) &&
+			!node.body.some(statement =>
+				t.isClassDeclaration(statement) ||
+				t.isFunctionDeclaration(statement) ||
+				(t.isVariableDeclaration(statement) && statement.kind !== "var"))
+		) {
+			// Unwrap the block if that doesn't change the scope of any declarations
+			if (node.body.length === 0) {
+				path.remove();
+			} else {
+				path.replaceWithMultiple(node.body);
+			}
+		} else {
+			path.replaceWith(node);
+		}
+	};
+
+	// `var` declarations in a branch which never runs are still hoisted, and may be referenced from
+	// the rest of the function. The bindings are kept as bare declarations.
+	const hoistVariables = (branch: NodePath<types.Statement | null | undefined>) => {
+		if (branch.node == null) {
+			return;
+		}
+		const scope = branch.scope.getFunctionParent() ?? branch.scope.getProgramParent();
+		const declare = (declaration: types.VariableDeclaration) => {
+			if (declaration.kind === "var") {
+				for (const name of Object.keys(t.getBindingIdentifiers(declaration))) {
+					scope.push({ id: t.identifier(name) });
+				}
+			}
+		};
+		if (t.isVariableDeclaration(branch.node)) {
+			declare(branch.node);
+		} else {
+			branch.traverse({
+				Function(path) {
+					path.skip();
+				},
+				StaticBlock(path) {
+					path.skip();
+				},
+				VariableDeclaration(path) {
+					declare(path.node);
+				},
+			});
+		}
+	};
+
+	// Fold a known value into its parent
+	const fold = (path: NodePath, value: KnownValue): void => {
+		const { parentPath, key } = path;
+		if (parentPath === null) {
+			return;
+		} else if (parentPath.isExpressionStatement()) {
+			parentPath.remove();
+			return;
+		} else if (parentPath.isIfStatement() && key === "test") {
+			hoistVariables(parentPath.get(value ? "alternate" : "consequent"));
+			replaceWithBranch(parentPath, parentPath.get(value ? "consequent" : "alternate"));
+			return;
+		} else if (parentPath.isConditionalExpression() && key === "test") {
+			parentPath.replaceWith(parentPath.node[value ? "consequent" : "alternate"]);
+			return;
+		} else if (parentPath.isUnaryExpression({ operator: "!" })) {
+			fold(parentPath, !value);
+			return;
+		} else if (
+			parentPath.isTSAsExpression() ||
+			parentPath.isTSNonNullExpression() ||
+			parentPath.isTSSatisfiesExpression() ||
+			parentPath.isTSTypeAssertion()
+		) {
+			fold(parentPath, value);
+			return;
+		} else if (parentPath.isLogicalExpression() && key === "left") {
+			const { operator, right } = parentPath.node;
+			const short =
+				operator === "&&" ? !value :
+				operator === "||" ? Boolean(value) :
+				value != null;
+			if (short) {
+				fold(parentPath, value);
+			} else {
+				parentPath.replaceWith(right);
+			}
+			return;
+		} else if (
+			parentPath.isVariableDeclarator() &&
+			key === "init" &&
+			t.isIdentifier(parentPath.node.id) &&
+			parentPath.parentPath.isVariableDeclaration({ kind: "const" }) &&
+			!parentPath.parentPath.parentPath.isExportNamedDeclaration()
+		) {
+			// References are replaced with an equivalent `import.meta.hot` expression, which is
+			// folded in a later pass.
+			const binding = parentPath.scope.getBinding(parentPath.node.id.name);
+			if (
+				binding?.constantViolations.length === 0 &&
+				!binding.referencePaths.some(reference => reference.parentPath?.isExportSpecifier())
+			) {
+				for (const reference of binding.referencePaths) {
+					if (isAttached(reference)) {
+						reference.replaceWith(makeKnownExpression(value));
+					}
+				}
+				parentPath.remove();
+				return;
+			}
+		}
+		path.replaceWith(value === undefined ? path.scope.buildUndefinedNode() : t.booleanLiteral(value));
+	};
+
+	return {
+		name: "dynohot/strip",
+		visitor: {
+			Program(program) {
+				// References are collected in one pass and folded in order. A fold can remove or
+				// replace the code around a later reference, which is then found again by the next
+				// pass. Inlined constants also add new references.
+				for (;;) {
+					const found: NodePath[] = [];
+					program.traverse({
+						MetaProperty(path) {
+							const { parentPath } = path;
+							if (isHotMember(parentPath) && path.key === "object") {
+								found.push(parentPath);
+							}
+						},
+					});
+					if (found.length === 0) {
+						break;
+					}
+					for (const [ ii, path ] of found.entries()) {
+						// The first reference is always attached, so each pass makes progress
+						if (ii === 0 || isAttached(path)) {
+							const collapsed = collapse(path);
+							if (collapsed.isAssignmentExpression()) {
+								dropAssignment(collapsed);
+							} else {
+								fold(collapsed, undefined);
+							}
+						}
+					}
+					program.scope.crawl();
+				}
+			},
+		},
+	};
+}
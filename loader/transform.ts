@@ -1,16 +1,29 @@
+import type { BabelPlugin, UnimportedAccept } from "./config.js";
+import type { Format } from "./node-loader.js";
+import type { Edit } from "./splice.js";
+import type { TransformOptions as BabelTransformOptions, PluginItem, PluginObj } from "@babel/core";
 import type { NodePath, Visitor } from "@babel/traverse";
 import type { BindingEntry } from "dynohot/runtime/binding";
 import * as assert from "node:assert/strict";
-import { parse, types as t } from "@babel/core";
+import { parse, types as t, template, transformFromAstSync } from "@babel/core";
 import convertSourceMap from "convert-source-map";
 import Fn from "dynohot/functional";
 import { BindingType } from "dynohot/runtime/binding";
-import { generate, makeRootPath, traverse } from "./babel-shim.js";
+import { makeRootPath, traverse } from "./babel-shim.js";
+import { spliceSource } from "./splice.js";
 
 const makeLocalGetter = (localName: string, exportName: string) =>
-	t.objectProperty(
-		t.identifier(exportName),
-		t.arrowFunctionExpression([], t.identifier(localName)));
+	`${t.isValidIdentifier(exportName, false) ? exportName : JSON.stringify(exportName)}: () => ${localName}`;
+
+const rangeOf = (node: t.Node) => {
+	assert.ok(node.start != null && node.end != null);
+	return { start: node.start, end: node.end };
+};
+
+// Deferred namespaces and module sources belong to the importing module, so they can't be expressed
+// as indirect exports.
+const unsupportedPhaseExport = (path: NodePath, phase: string) =>
+	path.buildCodeFrameError(`Re-exporting a ${phase} phase import is not supported`);
 
 const extractName = (node: t.Identifier | t.StringLiteral) =>
 	t.isStringLiteral(node) ? node.value : node.name;
@@ -20,31 +33,94 @@ interface ImportEntry {
 	importSpecifier: string;
 	specifier: string;
 	bindings: BindingEntry[];
+	lazy?: boolean;
+}
+
+/** @internal */
+export interface TransformOptions {
+	/** Babel plugins which run before the hot transformation */
+	plugins?: readonly BabelPlugin[] | undefined;
+	/** Directory used to resolve plugins which are specified by name */
+	cwd?: string | undefined;
+	/**
+	 * Expression which evaluates to the module's source phase object, for `import source`. It is
+	 * evaluated once per version of the module, and is available to the module body as
+	 * `moduleSource`.
+	 */
+	moduleSource?: string | undefined;
+	/** See: `Config["bindingSlots"]` */
+	bindingSlots?: boolean | undefined;
+	/** See: `Config["unimportedAccept"]` */
+	unimportedAccept?: UnimportedAccept | undefined;
+	/** See: `Config["acceptLazyImports"]` */
+	acceptLazyImports?: boolean | undefined;
+	/** See: `Config["transactional"]` */
+	transactional?: boolean | undefined;
 }
 
 export function transformModuleSource(
 	filename: string,
-	importAssertions: Record<string, string>,
+	importAttributes: Record<string, string>,
 	sourceText: string,
 	sourceMap: unknown,
+	/** Format of the original module, this is passed back to the loader by `hot:reload` */
+	format: Format = "module",
+	options: TransformOptions = {},
 ) {
-	const file = function() {
+	const plugins = [ ...options.plugins ?? [] ] as PluginItem[];
+	const { result, state } = function() {
 		try {
-			const file = parse(sourceText, {
+			const babelOptions = {
 				babelrc: false,
 				configFile: false,
+				cwd: options.cwd,
 				filename,
-				retainLines: true,
 				sourceType: "module",
-				parserOpts: {
-					plugins: [
-						"explicitResourceManagement",
-						[ "importAttributes", { deprecatedAssertSyntax: true } ],
-					],
+			} satisfies BabelTransformOptions;
+			const parserOpts = {
+				plugins: [
+					"deferredImportEvaluation",
+					"explicitResourceManagement",
+					[ "importAttributes", { deprecatedAssertSyntax: true } ],
+					"sourcePhaseImports",
+				],
+			} satisfies BabelTransformOptions["parserOpts"];
+			const file = parse(sourceText, { ...babelOptions, parserOpts, plugins });
+			assert.ok(file);
+			if (plugins.length === 0) {
+				// Splice the transformation into the original text. The AST is only used for
+				// analysis, so the module's formatting is preserved and the file doesn't need to be
+				// regenerated.
+				const state = transformProgram(makeRootPath(file), sourceText, options);
+				const result = spliceSource(filename, sourceText, state.edits, state.prefix, "\n}", sourceMap);
+				return { result, state };
+			}
+			// User plugins can change anything, and their changes have no place in the original
+			// text. So they run against the same AST in the same pass as the hot transformation,
+			// which changes the AST instead of splicing, and code is generated once.
+			let state: ReturnType<typeof transformProgram> | undefined;
+			const hotPlugin = (): PluginObj => ({
+				visitor: {
+					Program: {
+						exit(path) {
+							path.scope.crawl();
+							state = transformProgram(path, undefined, options);
+						},
+					},
 				},
 			});
-			assert.ok(file);
-			return file;
+			const generated = transformFromAstSync(file, sourceText, {
+				...babelOptions,
+				plugins: [ ...plugins, hotPlugin ],
+				cloneInputAst: false,
+				inputSourceMap: (sourceMap ?? undefined) as BabelTransformOptions["inputSourceMap"],
+				retainLines: true,
+				sourceFileName: filename,
+				sourceMaps: true,
+			});
+			assert.ok(generated?.code != null && state !== undefined);
+			const result = spliceSource(filename, generated.code, [], state.prefix, "\n}", generated.map);
+			return { result, state };
 		} finally {
 			// nb: Babel has uncharacteristically poor hygiene here and assigns `Error.prepareStackTrace`
 			// when you invoke `parse` and doesn't even bother to put it back. This causes nodejs's source
@@ -56,21 +132,28 @@ export function transformModuleSource(
 		}
 	}();
 
-	// Run transformation
-	const path = makeRootPath(file);
-	const state = transformProgram(path);
-
-	// Generate new source code from modified AST
-	const result = generate(file, {
-		filename: filename.replace(/(\..+?|)$/, ".hot$1"),
-		retainLines: true,
-		sourceMaps: true,
-		// @ts-expect-error
-		inputSourceMap: sourceMap,
-	});
+	// Warnings are reported each time the module is loaded, since the transformation may be cached.
+	// Specifiers passed to `import.meta.hot.accept` which are never imported may fail the load
+	// instead.
+	const unimportedAccept = options.unimportedAccept ?? "warn";
+	const [ firstUnimported ] = state.unimportedAccepts;
+	if (unimportedAccept === "error" && firstUnimported !== undefined) {
+		throw firstUnimported.path.buildCodeFrameError(`Accepted specifier ${JSON.stringify(firstUnimported.specifier)} is never imported by this module`);
+	}
+	const diagnostics = [
+		...unimportedAccept === "warn" ? state.unimportedAccepts.map(({ path, specifier }) => ({
+			node: path.node,
+			message: `Accepted specifier ${JSON.stringify(specifier)} is never imported`,
+		})) : [],
+		...state.warnings,
+	].sort((left, right) => (left.node.start ?? 0) - (right.node.start ?? 0));
+	const warnings = Fn.join(Fn.map(diagnostics, ({ node, message }) => {
+		const location = `${filename}:${node.loc?.start.line}:${(node.loc?.start.column ?? 0) + 1}`;
+		return `console.error(${JSON.stringify(`[hot] Warning: ${location}: ${message}.`)});\n`;
+	}), "");
 
 	// Generate source map comment
-	const sourceMapComment = result.map ? convertSourceMap.fromObject(result.map).toComment() : "";
+	const sourceMapComment = convertSourceMap.fromObject(result.map).toComment();
 
 	// Make import declarations
 	const importRuntime = 'import { acquire } from "hot:runtime";';
@@ -92,21 +175,30 @@ export function transformModuleSource(
 		declaration => {
 			const bindings = JSON.stringify(declaration.bindings);
 			const specifier = JSON.stringify(declaration.specifier);
-			return `{ controller: ${declaration.identifier}, specifier: ${specifier}, bindings: ${bindings} }`;
+			const lazy = declaration.lazy === true ? ", lazy: true" : "";
+			return `{ controller: ${declaration.identifier}, specifier: ${specifier}, bindings: ${bindings}${lazy} }`;
 		},
 	), ", ")} ]`;
-	const loader = `module().load(${body}, ${importMeta}, ${state.usesDynamicImport}, "module", ${JSON.stringify(importAssertions)}, ${requestEntries});`;
+	const moduleSource = options.moduleSource === undefined ? "" : `const moduleSource = ${options.moduleSource};\n`;
+	const loader = `module().load(${body}, ${importMeta}, ${state.usesDynamicImport}, ${JSON.stringify(format)}, ${JSON.stringify(importAttributes)}, ${requestEntries}${options.moduleSource === undefined ? "" : ", moduleSource"});`;
 
 	// Build final module source
-	return `${result.code}\n${sourceMapComment}\n${importRuntime}\n${imports}\n${loader}\n`;
+	return `${result.code}\n${sourceMapComment}\n${importRuntime}\n${imports}\n${warnings}${moduleSource}${loader}\n`;
 }
 
-function transformProgram(program: NodePath<t.Program>) {
-	const exportedGetters = t.objectExpression([]);
+/**
+ * Runs the hot transformation against `program`. Changes are recorded as edits to `sourceText`, or
+ * made to the AST if there is no source text which corresponds to it.
+ */
+function transformProgram(program: NodePath<t.Program>, sourceText: string | undefined, options: TransformOptions) {
+	const bindingSlots = options.bindingSlots ?? false;
+	const exportedGetters: string[] = [];
+	const edits: Edit[] = [];
 	const importDeclarations: ImportEntry[] = [];
 	const importedBindings = new Map<string, {
 		bindings: BindingEntry[];
 		exportName: string | null;
+		phase?: "defer" | "source";
 	}>();
 	const specifierToBindings = new Map<string, BindingEntry[]>();
 
@@ -145,6 +237,35 @@ function transformProgram(program: NodePath<t.Program>) {
 		}();
 	};
 
+	// Statements are replaced with an empty statement. This keeps any newlines, and avoids joining
+	// the previous statement with the next one if it didn't end with a semicolon.
+	const removeStatement = (statement: NodePath<t.Statement>) => {
+		if (sourceText !== undefined) {
+			const { start, end } = rangeOf(statement.node);
+			edits.push({ start, end, text: `;${sourceText.slice(start, end).replaceAll(/[^\n]/g, "")}` });
+		}
+		statement.remove();
+	};
+
+	// Removes `export` or `export default` from the start of a declaration. The AST is changed by
+	// the caller.
+	const removeExportKeyword = (statement: NodePath<t.Statement>, declaration: t.Node, text = "") => {
+		if (sourceText !== undefined) {
+			const start = rangeOf(statement.node).start;
+			const end = declaration.extra?.parenStart as number | undefined ?? rangeOf(declaration).start;
+			edits.push({ start, end, text });
+		}
+	};
+
+	// A hashbang is only allowed at the very start of the file
+	if (program.node.interpreter) {
+		if (sourceText === undefined) {
+			program.node.interpreter = null;
+		} else {
+			edits.push({ ...rangeOf(program.node.interpreter), text: "" });
+		}
+	}
+
 	// First step is to process import statements. These are rewritten to pass the requested
 	// bindings to the runtime module controller. This is done first so that later we know which
 	// names are re-exports. Since exports and imports can only occur at the top level there is no
@@ -153,6 +274,20 @@ function transformProgram(program: NodePath<t.Program>) {
 		if (statement.isImportDeclaration()) {
 			// import identifier from "specifier";
 			const bindings = acquireModuleRequestBindings(statement.node);
+			const { phase } = statement.node;
+			if (phase != null) {
+				// import defer * as ns from "specifier";
+				// import source identifier from "specifier";
+				const [ specifier ] = statement.node.specifiers;
+				assert.ok(specifier !== undefined);
+				importedBindings.set(specifier.local.name, { exportName: null, bindings, phase });
+				bindings.push({
+					type: phase === "defer" ? BindingType.importDefer : BindingType.importSource,
+					as: specifier.local.name,
+				});
+				removeStatement(statement);
+				continue;
+			}
 			for (const specifier of statement.node.specifiers) {
 				if (t.isImportDefaultSpecifier(specifier)) {
 					importedBindings.set(specifier.local.name, { exportName: "default", bindings });
@@ -182,17 +317,24 @@ function transformProgram(program: NodePath<t.Program>) {
 					});
 				}
 			}
-			statement.remove();
+			removeStatement(statement);
 		}
 	}
 
+	// With `bindingSlots` importers read exported bindings from their own variables, so each
+	// statement which initializes or assigns an exported binding has to notify the runtime.
+	const updateName = program.scope.generateUid("update");
+	if (bindingSlots) {
+		notifyExportedBindings(program, importedBindings, updateName, sourceText === undefined ? undefined : edits);
+	}
+
 	// Now we walk the program statements again and process exports.
 	for (const statement of program.get("body")) {
 		if (statement.isExportAllDeclaration()) {
 			// export * from "specifier";
 			const bindings = acquireModuleRequestBindings(statement.node);
 			bindings.push({ type: BindingType.exportStar });
-			statement.remove();
+			removeStatement(statement);
 
 		} else if (statement.isExportDefaultDeclaration()) {
 			// export default expression;
@@ -204,9 +346,18 @@ function transformProgram(program: NodePath<t.Program>) {
 					// invariants. We will give these declarations names.
 					declaration.node.id = program.scope.generateUidIdentifier("default");
 					program.scope.registerDeclaration(declaration);
+					if (sourceText !== undefined) {
+						// The name goes after `class`, or before the parameter list of a function
+						const position = declaration.isClassDeclaration()
+							? rangeOf(declaration.node).start + "class".length
+							: sourceText.lastIndexOf("(", rangeOf(declaration.node.params[0] ?? declaration.node.body).start);
+						const separator = /\s/.test(sourceText.charAt(position - 1)) ? "" : " ";
+						edits.push({ start: position, end: position, text: `${separator}${declaration.node.id.name}` });
+					}
 				}
 				// Add binding to this declaration by name
-				exportedGetters.properties.push(makeLocalGetter(declaration.node.id.name, "default"));
+				exportedGetters.push(makeLocalGetter(declaration.node.id.name, "default"));
+				removeExportKeyword(statement, declaration.node);
 				statement.replaceWith(declaration);
 			} else {
 				const indirectExport = declaration.isIdentifier() ? importedBindings.get(declaration.node.name) : undefined;
@@ -215,15 +366,18 @@ function transformProgram(program: NodePath<t.Program>) {
 					// binding to an underlying expression.
 					assert.ok(declaration.isExpression());
 					const id = program.scope.generateUid("default");
+					removeExportKeyword(statement, declaration.node, `const ${id} = `);
 					const next = statement.replaceWith(
 						t.variableDeclaration("const", [
 							t.variableDeclarator(t.identifier(id), declaration.node),
 						]));
 					program.scope.registerDeclaration(next[0]);
-					exportedGetters.properties.push(makeLocalGetter(id, "default"));
+					exportedGetters.push(makeLocalGetter(id, "default"));
 				} else {
 					// This is actually a re-export of an existing import
-					if (indirectExport.exportName === null) {
+					if (indirectExport.phase !== undefined) {
+						throw unsupportedPhaseExport(statement, indirectExport.phase);
+					} else if (indirectExport.exportName === null) {
 						// import * as foo from "bar";
 						// export default foo;
 						indirectExport.bindings.push({
@@ -239,7 +393,7 @@ function transformProgram(program: NodePath<t.Program>) {
 							as: "default",
 						});
 					}
-					statement.remove();
+					removeStatement(statement);
 				}
 			}
 
@@ -269,7 +423,7 @@ function transformProgram(program: NodePath<t.Program>) {
 						});
 					}
 				}
-				statement.remove();
+				removeStatement(statement);
 				continue;
 			}
 
@@ -280,7 +434,9 @@ function transformProgram(program: NodePath<t.Program>) {
 					const exportName = extractName(exported);
 					const indirectExport = importedBindings.get(local.name);
 					if (indirectExport === undefined) {
-						exportedGetters.properties.push(makeLocalGetter(local.name, exportName));
+						exportedGetters.push(makeLocalGetter(local.name, exportName));
+					} else if (indirectExport.phase !== undefined) {
+						throw unsupportedPhaseExport(statement, indirectExport.phase);
 					} else if (indirectExport.exportName === null) {
 						// import * as foo from "bar";
 						// export { foo };
@@ -307,18 +463,19 @@ function transformProgram(program: NodePath<t.Program>) {
 			if (declaration) {
 				if (t.isClassDeclaration(declaration) || t.isFunctionDeclaration(declaration)) {
 					const name = declaration.id!.name;
-					exportedGetters.properties.push(makeLocalGetter(name, name));
+					exportedGetters.push(makeLocalGetter(name, name));
 				} else if (t.isVariableDeclaration(declaration)) {
 					const { declarations } = declaration;
 					for (const declaration of declarations) {
 						for (const localName of Object.keys(t.getOuterBindingIdentifiers(declaration))) {
-							exportedGetters.properties.push(makeLocalGetter(localName, localName));
+							exportedGetters.push(makeLocalGetter(localName, localName));
 						}
 					}
 				}
+				removeExportKeyword(statement, declaration);
 				statement.replaceWith(declaration);
 			} else {
-				statement.remove();
+				removeStatement(statement);
 			}
 		}
 	}
@@ -326,77 +483,508 @@ function transformProgram(program: NodePath<t.Program>) {
 	// Now run the recursive visitor which replaces all runtime-managed references with getters.
 	// While we're in there we will also look for dynamic imports and top-level awaits.
 	const holderName = program.scope.generateUid("$");
+	const replaceName = program.scope.generateUid("replace");
 	const importDynamicName = program.scope.generateUid("import");
 	const importMetaName = program.scope.generateUid("meta");
 	const acceptName = program.scope.generateUid("accept");
+
+	// `/* @hot-preserve */ let name = initializer;` stores the value in the `data` passed to the next
+	// version of the module, which uses it instead of evaluating the initializer. A changed
+	// initializer is evaluated again.
+	let usesPreserve = false;
+	for (const statement of program.get("body")) {
+		const hasDirective = statement.node.leadingComments?.some(comment => comment.value.trim() === "@hot-preserve");
+		if (hasDirective === true) {
+			if (!statement.isVariableDeclaration()) {
+				throw statement.buildCodeFrameError("`@hot-preserve` must precede a variable declaration");
+			} else if (options.transactional === true) {
+				// `data` is only filled in when a transactional update commits, which is after the
+				// new instance has evaluated.
+				throw statement.buildCodeFrameError("`@hot-preserve` can't be used with `transactional`");
+			}
+			const disposers: string[] = [];
+			for (const declarator of statement.get("declarations")) {
+				const { id, init } = declarator.node;
+				if (!t.isIdentifier(id) || !init) {
+					throw statement.buildCodeFrameError("`@hot-preserve` declarations must be a name and an initializer");
+				}
+				const key = JSON.stringify(`@hot-preserve:${id.name}`);
+				const data = `${importMetaName}.hot.data`;
+				if (sourceText === undefined) {
+					// Plugins may have changed the initializer, but its original text is what the
+					// author wrote
+					const initializer = JSON.stringify(declarator.get("init").getSource());
+					declarator.node.init = t.conditionalExpression(
+						template.expression.ast(`${data}?.[${key}]?.initializer === ${initializer}`),
+						template.expression.ast(`${data}[${key}].value`),
+						init);
+					disposers.push(`data[${key}] = { initializer: ${initializer}, value: ${id.name} };`);
+				} else {
+					const { start, end } = rangeOf(init);
+					const initializer = JSON.stringify(sourceText.slice(start, end));
+					edits.push({ start, end: start, text: `${data}?.[${key}]?.initializer === ${initializer} ? ${data}[${key}].value : ` });
+					disposers.push(`data[${key}] = { initializer: ${initializer}, value: ${id.name} };`);
+				}
+			}
+			const dispose = `${importMetaName}.hot.dispose(data => { ${disposers.join(" ")} });`;
+			if (sourceText === undefined) {
+				statement.insertAfter(template.statement.ast(dispose));
+			} else {
+				const { end } = rangeOf(statement.node);
+				edits.push({ start: end, end, text: `;${dispose}` });
+			}
+			usesPreserve = true;
+		}
+	}
+
 	const visitorState: VisitorState = {
+		edits: sourceText === undefined ? undefined : edits,
 		holderName,
-		importedLocalNames: new Set(importedBindings.keys()),
+		importedLocalNames: new Set(bindingSlots ? [] : importedBindings.keys()),
+		eagerImports: options.acceptLazyImports === true ? new Set() : undefined,
+		importedNames: new Set(importedBindings.keys()),
 		importDynamicName,
 		importMetaName,
 		program,
+		acceptedSpecifiers: [],
+		dynamicSpecifiers: new Set(),
+		warnings: [],
+		usesComputedDynamicImport: false,
 		usesDynamicImport: false,
-		usesImportMeta: false,
+		usesImportMeta: usesPreserve,
 		usesTopLevelAwait: false,
 	};
 	traverse(program.node, importToGetterVisitor, program.scope, visitorState);
 
-	// Finally, assemble a new body with the re-written imports, import descriptors, runtime-defined
-	// default export, and module body generator
-	program.node.body = [
-		t.functionDeclaration(
-			t.identifier("execute"),
-			[
-				t.identifier(importMetaName),
-				t.identifier(importDynamicName),
-				...visitorState.usesTopLevelAwait ? [ t.identifier(acceptName) ] : [],
-			],
-			t.blockStatement([
-				t.variableDeclaration("let", [
-					t.variableDeclarator(
-						t.identifier(holderName),
-						t.yieldExpression(function() {
-							const scope = t.arrayExpression([
-								t.arrowFunctionExpression(
-									[ t.identifier("next") ],
-									t.blockStatement([
-										t.expressionStatement(
-											t.assignmentExpression("=", t.identifier(holderName), t.identifier("next"))),
-									])),
-								exportedGetters,
-							]);
-							if (visitorState.usesTopLevelAwait) {
-								return t.callExpression(t.identifier(acceptName), [ scope ]);
-							} else {
-								return scope;
-							}
-						}())),
-				]),
-				...program.node.body,
-			]),
-			true,
-			visitorState.usesTopLevelAwait),
+	// Finally, assemble the header of the module body generator, with the runtime-defined default
+	// export and local export getters. It's placed on the first line so that line numbers in the
+	// rest of the module are unchanged.
+	const params = [
+		importMetaName,
+		importDynamicName,
+		...visitorState.usesTopLevelAwait ? [ acceptName ] : [],
+		...bindingSlots ? [ updateName ] : [],
 	];
+	const getters = exportedGetters.length === 0 ? "{}" : `{ ${exportedGetters.join(", ")} }`;
+	const head = `${visitorState.usesTopLevelAwait ? "async " : ""}function* execute(${params.join(", ")}) {`;
+	const yieldScope = (scope: string) => visitorState.usesTopLevelAwait ? `${acceptName}(${scope})` : scope;
+	const prefix = function() {
+		if (bindingSlots) {
+			// Each imported binding is a plain variable, which is assigned by `replace`. It assigns
+			// every binding, or only the one named by the runtime when an exported binding changes.
+			// A binding which is read before it is initialized, in a cycle, is `undefined` until the
+			// exporting module notifies the runtime.
+			const localNames = [ ...importedBindings.keys() ];
+			const slots = localNames.length === 0 ? "" : ` let ${localNames.join(", ")};`;
+			const bindingName = program.scope.generateUid("binding");
+			const assignments = Fn.join(Fn.map(importedBindings, ([ localName, { exportName } ]) => {
+				const assignment = `${localName} = ${holderName}.${localName}();`;
+				const guarded = exportName === null ? assignment : `try { ${assignment} } catch { ${localName} = undefined; }`;
+				return ` if (${bindingName} === undefined || ${bindingName} === ${JSON.stringify(localName)}) { ${guarded} }`;
+			}), "");
+			const replace = ` const ${replaceName} = (${holderName}, ${bindingName}) => {${assignments} };`;
+			return `${head}${slots}${replace} ${replaceName}(yield ${yieldScope(`[ ${replaceName}, ${getters} ]`)}); `;
+		} else {
+			return `${head} let ${holderName} = yield ${yieldScope(`[ next => { ${holderName} = next; }, ${getters} ]`)}; `;
+		}
+	}();
+
+	// A module request is lazy if the module only imports bindings from it, and they're only read
+	// by code which doesn't run during evaluation.
+	if (visitorState.eagerImports !== undefined) {
+		for (const declaration of importDeclarations) {
+			declaration.lazy =
+				declaration.bindings.length > 0 &&
+				declaration.bindings.every(binding => {
+					switch (binding.type) {
+						case BindingType.import: return !visitorState.eagerImports!.has(binding.as ?? binding.name);
+						case BindingType.importDefer:
+						case BindingType.importSource:
+						case BindingType.importStar: return !visitorState.eagerImports!.has(binding.as);
+						default: return false;
+					}
+				});
+		}
+	}
+
+	// Look for accepted specifiers which are never imported. Anything could be imported by a
+	// computed `import()`, so those modules aren't checked.
+	const unimportedAccepts = visitorState.usesComputedDynamicImport ? [] : visitorState.acceptedSpecifiers.filter(
+		({ specifier }) =>
+			!importDeclarations.some(declaration => declaration.specifier === specifier) &&
+			!visitorState.dynamicSpecifiers.has(specifier));
 
 	return {
+		edits,
 		importDeclarations,
+		prefix,
+		unimportedAccepts,
+		warnings: visitorState.warnings,
 		usesDynamicImport: visitorState.usesDynamicImport,
 		usesImportMeta: visitorState.usesImportMeta,
 		usesTopLevelAwait: visitorState.usesTopLevelAwait,
 	};
 }
 
+/**
+ * Notifies the runtime after each statement which initializes an exported binding, and after each
+ * assignment to an exported binding. `update` receives the name of the export, so only importers
+ * of that binding are assigned again, and returns its second argument, so assignments are wrapped
+ * with it in place. Without `edits` the AST is changed instead.
+ */
+function notifyExportedBindings(
+	program: NodePath<t.Program>,
+	importedBindings: ReadonlyMap<string, unknown>,
+	updateName: string,
+	edits: Edit[] | undefined,
+) {
+	// Export names of each local binding
+	const exportNames = new Map<string, Set<string>>();
+	const addExportName = (localName: string, exportName: string) => {
+		const names = exportNames.get(localName);
+		if (names === undefined) {
+			exportNames.set(localName, new Set([ exportName ]));
+		} else {
+			names.add(exportName);
+		}
+	};
+	// Initializers and assignments, and the exports which they change
+	const initializers = new Map<NodePath, Set<string>>();
+	const assignments = new Map<NodePath, Set<string>>();
+	const addNames = (paths: Map<NodePath, Set<string>>, path: NodePath, names: Iterable<string>) => {
+		const previous = paths.get(path);
+		if (previous === undefined) {
+			paths.set(path, new Set(names));
+		} else {
+			for (const name of names) {
+				previous.add(name);
+			}
+		}
+	};
+	for (const statement of program.get("body")) {
+		if (statement.isExportDefaultDeclaration()) {
+			const declaration = statement.get("declaration");
+			if (declaration.isFunctionDeclaration() || declaration.isClassDeclaration()) {
+				if (declaration.node.id) {
+					addExportName(declaration.node.id.name, "default");
+				}
+				if (declaration.isClassDeclaration()) {
+					addNames(initializers, statement, [ "default" ]);
+				}
+			} else if (!declaration.isIdentifier() || !importedBindings.has(declaration.node.name)) {
+				// export default expression;
+				addNames(initializers, statement, [ "default" ]);
+			}
+		} else if (statement.isExportNamedDeclaration() && !statement.node.source) {
+			const { declaration, specifiers } = statement.node;
+			if (declaration) {
+				for (const localName of Object.keys(t.getOuterBindingIdentifiers(declaration))) {
+					addExportName(localName, localName);
+				}
+			}
+			for (const specifier of specifiers) {
+				if (t.isExportSpecifier(specifier) && !importedBindings.has(specifier.local.name)) {
+					const { exported } = specifier;
+					addExportName(specifier.local.name, t.isIdentifier(exported) ? exported.name : exported.value);
+				}
+			}
+		}
+	}
+	for (const [ localName, names ] of exportNames) {
+		const binding = program.scope.getBinding(localName);
+		assert.ok(binding);
+		// Function declarations are initialized before the module body runs
+		if (binding.kind !== "hoisted") {
+			addNames(initializers, binding.path, names);
+		}
+		for (const violation of binding.constantViolations) {
+			if (violation.isVariableDeclarator()) {
+				if (violation.node.init) {
+					addNames(initializers, violation, names);
+				}
+			} else if (violation.isAssignmentExpression() || violation.isUpdateExpression() || violation.isForXStatement()) {
+				addNames(assignments, violation, names);
+			}
+		}
+	}
+
+	// Declarations notify after the statement, or at the start of each iteration when they are the
+	// left side of a `for` ... `in` or `of` loop.
+	if (edits === undefined) {
+		const makeNotify = (name: string, value?: t.Expression) =>
+			t.callExpression(t.identifier(updateName), [ t.stringLiteral(name), ...value ? [ value ] : [] ]);
+		const statements = new Map<NodePath, Set<string>>();
+		const declarators = new Map<NodePath<t.VariableDeclaration>, Set<string>>();
+		for (const [ path, names ] of initializers) {
+			if (path.isVariableDeclarator()) {
+				const declaration = path.parentPath as NodePath<t.VariableDeclaration>;
+				if (declaration.parentPath.isForXStatement()) {
+					addNames(assignments, declaration.parentPath, names);
+				} else if (declaration.parentPath.isForStatement()) {
+					addNames(declarators, declaration, names);
+				} else {
+					addNames(statements, declaration, names);
+				}
+			} else {
+				addNames(statements, path, names);
+			}
+		}
+		for (const [ path, names ] of assignments) {
+			if (path.isForXStatement()) {
+				path.node.body = t.blockStatement([
+					...Fn.map(names, name => t.expressionStatement(makeNotify(name))),
+					path.node.body,
+				]);
+			} else {
+				path.replaceWith(Fn.reduce(names, path.node as t.Expression, (value, name) => makeNotify(name, value)));
+			}
+		}
+		for (const [ declaration, names ] of declarators) {
+			declaration.node.declarations.push(t.variableDeclarator(
+				program.scope.generateUidIdentifier("updated"),
+				t.sequenceExpression(Array.from(names, name => makeNotify(name)))));
+		}
+		for (const [ path, names ] of statements) {
+			path.insertAfter(Array.from(names, name => t.expressionStatement(makeNotify(name))));
+		}
+		return;
+	}
+	const notify = (names: Iterable<string>) => Array.from(names, name => `${updateName}(${JSON.stringify(name)})`);
+	const statementEnds = new Map<number, Set<string>>();
+	const declaratorEnds = new Map<number, Set<string>>();
+	const addEnd = (ends: Map<number, Set<string>>, end: number, names: Iterable<string>) => {
+		const previous = ends.get(end);
+		ends.set(end, new Set([ ...previous ?? [], ...names ]));
+	};
+	for (const [ path, names ] of initializers) {
+		if (path.isVariableDeclarator()) {
+			const declaration = path.parentPath;
+			if (declaration.parentPath?.isForXStatement() === true) {
+				addNames(assignments, declaration.parentPath, names);
+			} else if (declaration.parentPath?.isForStatement() === true) {
+				addEnd(declaratorEnds, rangeOf(declaration.node).end, names);
+			} else {
+				addEnd(statementEnds, rangeOf(declaration.node).end, names);
+			}
+		} else {
+			addEnd(statementEnds, rangeOf(path.node).end, names);
+		}
+	}
+
+	// Assignments may be nested, in which case the outer wrapper must be opened first and closed
+	// last. Loop bodies are statements, so they enclose any expression with the same range.
+	const wrappers = Array.from(assignments, ([ path, names ]) => {
+		if (path.isForXStatement()) {
+			return { ...rangeOf(path.node.body), open: `{ ${notify(names).join("; ")}; `, close: " }", statement: true };
+		} else {
+			return {
+				...rangeOf(path.node),
+				open: Array.from(names, name => `${updateName}(${JSON.stringify(name)}, `).join(""),
+				close: ")".repeat(names.size),
+				statement: false,
+			};
+		}
+	}).sort((left, right) =>
+		(right.end - right.start) - (left.end - left.start) || Number(right.statement) - Number(left.statement));
+	for (const wrapper of wrappers) {
+		edits.push({ start: wrapper.start, end: wrapper.start, text: wrapper.open });
+	}
+	for (const wrapper of wrappers.reverse()) {
+		edits.push({ start: wrapper.end, end: wrapper.end, text: wrapper.close });
+	}
+	for (const [ end, names ] of declaratorEnds) {
+		edits.push({ start: end, end, text: `, ${program.scope.generateUid("updated")} = (${notify(names).join(", ")})` });
+	}
+	for (const [ end, names ] of statementEnds) {
+		edits.push({ start: end, end, text: `;${notify(names).join("; ")};` });
+	}
+}
+
 interface VisitorState {
+	/** Edits to the source text, or `undefined` if the AST is changed instead */
+	readonly edits: Edit[] | undefined;
 	readonly importedLocalNames: ReadonlySet<string>;
 	readonly holderName: string;
 	readonly importDynamicName: string;
 	readonly importMetaName: string;
 	readonly program: NodePath<t.Program>;
+	/** Literal specifiers passed to `import.meta.hot.accept` */
+	readonly acceptedSpecifiers: { path: NodePath; specifier: string }[];
+	/** Literal specifiers passed to `import()` */
+	readonly dynamicSpecifiers: Set<string>;
+	/** Code which behaves differently in the transformed module body */
+	readonly warnings: { node: t.Node; message: string }[];
+	/** Imported bindings which may be read during evaluation, with `acceptLazyImports` */
+	readonly eagerImports: Set<string> | undefined;
+	readonly importedNames: ReadonlySet<string>;
+	usesComputedDynamicImport: boolean;
 	usesDynamicImport: boolean;
 	usesImportMeta: boolean;
 	usesTopLevelAwait: boolean;
 }
 
+// `import.meta.hot.accept`, or `import.meta.dynoHot.accept`
+function isHotAccept(callee: t.Node) {
+	const isProperty = (node: t.Node, names: readonly string[]): node is t.MemberExpression | t.OptionalMemberExpression =>
+		(t.isMemberExpression(node) || t.isOptionalMemberExpression(node)) &&
+		!node.computed && t.isIdentifier(node.property) && names.includes(node.property.name);
+	return (
+		isProperty(callee, [ "accept" ]) &&
+		isProperty(callee.object, [ "dynoHot", "hot" ]) &&
+		t.isMetaProperty(callee.object.object) &&
+		callee.object.object.meta.name === "import" &&
+		callee.object.object.property.name === "meta"
+	);
+}
+
+// A string literal, or a template literal without any expressions
+function literalValue(path: NodePath) {
+	if (path.isStringLiteral()) {
+		return path.node.value;
+	} else if (path.isTemplateLiteral() && path.node.expressions.length === 0) {
+		return path.node.quasis[0]!.value.cooked ?? undefined;
+	}
+}
+
+function visitHotAccept(path: NodePath<t.CallExpression | t.OptionalCallExpression>, state: VisitorState) {
+	if (isHotAccept(path.node.callee)) {
+		const [ argument ] = path.get("arguments");
+		const elements: NodePath[] =
+			argument === undefined ? [] :
+			argument.isArrayExpression() ? argument.get("elements") as NodePath[] : [ argument ];
+		for (const element of elements) {
+			const specifier = literalValue(element);
+			if (specifier !== undefined) {
+				state.acceptedSpecifiers.push({ path: element, specifier });
+			}
+		}
+	}
+}
+
+// True if `path` isn't inside of a function or class member which has its own `this` and `arguments`
+function isModuleBodyContext(path: NodePath) {
+	return path.findParent(parent =>
+		(parent.isFunction() && !parent.isArrowFunctionExpression()) ||
+		parent.isClassProperty() ||
+		parent.isClassPrivateProperty() ||
+		parent.isClassAccessorProperty() ||
+		parent.isStaticBlock()) === null;
+}
+
+// `fn.toString()`, where `fn` is a function or class declared in this module, or
+// `Function.prototype.toString.call(fn)`
+function isFunctionToString(path: NodePath<t.CallExpression>) {
+	const callee = path.get("callee");
+	if (callee.isMemberExpression() && !callee.node.computed && t.isIdentifier(callee.node.property)) {
+		if (callee.node.property.name === "toString" && path.node.arguments.length === 0) {
+			const object = callee.get("object");
+			if (object.isIdentifier()) {
+				const declaration = path.scope.getBinding(object.node.name)?.path.node;
+				return (
+					t.isFunctionDeclaration(declaration) ||
+					t.isClassDeclaration(declaration) ||
+					(t.isVariableDeclarator(declaration) && (
+						t.isFunction(declaration.init) ||
+						t.isClassExpression(declaration.init)))
+				);
+			}
+		} else if (callee.node.property.name === "call" || callee.node.property.name === "apply") {
+			return callee.get("object").matchesPattern("Function.prototype.toString");
+		}
+	}
+	return false;
+}
+
+/**
+ * Returns true if the code at `path` may run while the module is evaluated. Function bodies and class
+ * members run later, unless the function or class may be invoked during evaluation. That's assumed
+ * for anything which is referenced by code which may run during evaluation, or which isn't bound to
+ * a name.
+ */
+function isEagerContext(path: NodePath, seen = new Set<t.Node>()): boolean {
+	const context = path.findParent(parent =>
+		parent.isFunction() ||
+		parent.isClassProperty() ||
+		parent.isClassPrivateProperty() ||
+		parent.isClassAccessorProperty() ||
+		parent.isStaticBlock());
+	if (context === null) {
+		return true;
+	}
+	// Computed keys and static members are evaluated with the class or object
+	const { computed, static: isStatic } = context.node as { computed?: boolean; static?: boolean };
+	const key = context.get("key") as NodePath | NodePath[];
+	if (
+		context.isStaticBlock() ||
+		(isStatic === true && !context.isFunction()) ||
+		(computed === true && !Array.isArray(key) && path.isDescendant(key))
+	) {
+		return isEagerContext(context, seen);
+	}
+	// Methods and fields run when the class or object is used
+	if (context.isClassMethod() || context.isClassPrivateMethod() || !context.isFunction()) {
+		return isEagerEntity(context.parentPath!.parentPath!, seen);
+	} else if (context.isObjectMethod()) {
+		return isEagerEntity(context.parentPath, seen);
+	} else if (context.parentPath.isObjectProperty() && context.key === "value") {
+		return isEagerEntity(context.parentPath.parentPath!, seen);
+	}
+	// Immediately invoked functions run with their parent
+	const { parentPath } = context;
+	if ((parentPath.isCallExpression() || parentPath.isNewExpression()) && context.key === "callee") {
+		return isEagerContext(parentPath, seen);
+	}
+	return isEagerEntity(context, seen);
+}
+
+// A function, class, or object literal is eager if it's referenced by eager code
+function isEagerEntity(entity: NodePath, seen: Set<t.Node>): boolean {
+	if (seen.has(entity.node)) {
+		return false;
+	}
+	seen.add(entity.node);
+	const binding = function() {
+		const { node, parentPath } = entity;
+		if (parentPath !== null) {
+			if ((t.isFunctionDeclaration(node) || t.isClassDeclaration(node)) && node.id) {
+				return parentPath.scope.getBinding(node.id.name);
+			} else if (t.isVariableDeclarator(parentPath.node) && parentPath.node.init === node && t.isIdentifier(parentPath.node.id)) {
+				return parentPath.scope.getBinding(parentPath.node.id.name);
+			}
+		}
+	}();
+	if (binding === undefined) {
+		// Anonymous default exports can only be invoked by importers
+		return entity.parentPath?.isExportDefaultDeclaration() !== true;
+	}
+	// Exports are recorded as references too, either to the export specifier or to the declaration
+	// itself.
+	return binding.referencePaths.some(reference =>
+		(reference.isIdentifier() || reference.isJSXIdentifier()) &&
+		!reference.parentPath.isExportSpecifier() &&
+		isEagerContext(reference, seen));
+}
+
+function isNewCallee(path: NodePath) {
+	let current = path;
+	while (current.parentPath?.isMemberExpression() === true && current.key === "object") {
+		current = current.parentPath;
+	}
+	return current.parentPath?.isNewExpression() === true && current.key === "callee";
+}
+
+function recordImportReference(path: NodePath, localName: string, state: VisitorState) {
+	if (
+		state.eagerImports !== undefined &&
+		state.importedNames.has(localName) &&
+		!state.eagerImports.has(localName) &&
+		path.scope.getBinding(localName) === undefined &&
+		isEagerContext(path)
+	) {
+		state.eagerImports.add(localName);
+	}
+}
+
 const importToGetterVisitor: Visitor<VisitorState> = {
 	// Look for top-level await
 	AwaitExpression(path) {
@@ -415,27 +1003,87 @@ const importToGetterVisitor: Visitor<VisitorState> = {
 	CallExpression(path) {
 		if (t.isImport(path.node.callee)) {
 			this.usesDynamicImport = true;
-			path.get("callee").replaceWith(t.identifier(this.importDynamicName));
+			if (this.edits === undefined) {
+				path.get("callee").replaceWith(t.identifier(this.importDynamicName));
+			} else {
+				this.edits.push({ ...rangeOf(path.node.callee), text: this.importDynamicName });
+			}
+			const argument = path.get("arguments")[0];
+			const specifier = argument === undefined ? undefined : literalValue(argument);
+			if (specifier === undefined) {
+				this.usesComputedDynamicImport = true;
+			} else {
+				this.dynamicSpecifiers.add(specifier);
+			}
+		} else {
+			visitHotAccept(path, this);
+			const callee = path.get("callee");
+			if (
+				this.importedLocalNames.size > 0 &&
+				callee.isIdentifier({ name: "eval" }) &&
+				!path.scope.hasBinding("eval", true)
+			) {
+				this.warnings.push({ node: path.node, message: "Direct `eval` can't refer to imported bindings, which are rewritten by the hot transform" });
+			} else if (isFunctionToString(path)) {
+				this.warnings.push({ node: path.node, message: "`toString` returns the source text of the function after the hot transform" });
+			}
 		}
 	},
 
+	// Top-level `this` is `undefined` in a module, but not in the transformed module body
+	ThisExpression(path) {
+		if (isModuleBodyContext(path)) {
+			this.warnings.push({ node: path.node, message: "Top-level `this` is not `undefined` in the hot transformed module body" });
+		}
+	},
+
+	OptionalCallExpression(path) {
+		visitHotAccept(path, this);
+	},
+
+	// `import.defer()` and `import.source()`. Plain dynamic imports are a `CallExpression`.
+	ImportExpression(path) {
+		throw path.buildCodeFrameError(`\`import.${path.node.phase ?? ""}()\` is not supported`);
+	},
+
 	// Replace `import.meta`
 	MetaProperty(path) {
 		if (path.node.meta.name === "import" && path.node.property.name === "meta") {
-			path.replaceWith(t.identifier(this.importMetaName));
+			if (this.edits === undefined) {
+				path.replaceWith(t.identifier(this.importMetaName));
+			} else {
+				this.edits.push({ ...rangeOf(path.node), text: this.importMetaName });
+			}
 			this.usesImportMeta = true;
 		}
+		// Also skips `target` in `new.target`
+		path.skip();
 	},
 
 	// Replace imported bindings
 	Identifier(path) {
 		const localName = path.node.name;
+		recordImportReference(path, localName, this);
+		if (
+			localName === "arguments" &&
+			path.isReferencedIdentifier() &&
+			!path.scope.hasBinding("arguments", true) &&
+			isModuleBodyContext(path)
+		) {
+			this.warnings.push({ node: path.node, message: "Top-level `arguments` refers to the arguments of the hot transformed module body" });
+		}
 		if (this.importedLocalNames.has(localName)) {
 			const bindingScope = path.scope.getBinding(localName)?.scope;
 			if (bindingScope === undefined) {
-				path.replaceWith(t.callExpression(
-					t.memberExpression(t.identifier(this.holderName), path.node),
-					[]));
+				if (this.edits === undefined) {
+					path.replaceWith(t.callExpression(
+						t.memberExpression(t.identifier(this.holderName), path.node),
+						[]));
+				} else {
+					// `new foo.Bar()` would otherwise become `new $.foo().Bar()`, which constructs `$.foo`
+					const getter = `${this.holderName}.${localName}()`;
+					this.edits.push({ ...rangeOf(path.node), text: isNewCallee(path) ? `(${getter})` : getter });
+				}
 				path.skip();
 			}
 		}
@@ -453,6 +1101,14 @@ const importToGetterVisitor: Visitor<VisitorState> = {
 		}
 	},
 
+	BreakStatement(path) {
+		path.skipKey("label");
+	},
+
+	ContinueStatement(path) {
+		path.skipKey("label");
+	},
+
 	LabeledStatement(path) {
 		path.skipKey("label");
 	},
@@ -463,6 +1119,12 @@ const importToGetterVisitor: Visitor<VisitorState> = {
 		}
 	},
 
+	OptionalMemberExpression(path) {
+		if (!path.node.computed) {
+			path.skipKey("property");
+		}
+	},
+
 	ObjectMethod(path) {
 		if (!path.node.computed) {
 			path.skipKey("key");
@@ -473,14 +1135,21 @@ const importToGetterVisitor: Visitor<VisitorState> = {
 		if (!path.node.computed && t.isIdentifier(path.node.key)) {
 			if (path.node.shorthand) {
 				const localName = path.node.key.name;
+				recordImportReference(path, localName, this);
 				if (this.importedLocalNames.has(localName)) {
 					const bindingScope = path.scope.getBinding(localName)?.scope;
 					if (bindingScope === undefined) {
-						path.replaceWith(t.objectProperty(
-							path.node.key,
-							t.callExpression(
-								t.memberExpression(t.identifier(this.holderName), t.identifier(localName)),
-								[])));
+						if (this.edits === undefined) {
+							path.replaceWith(t.objectProperty(
+								path.node.key,
+								t.callExpression(
+									t.memberExpression(t.identifier(this.holderName), t.identifier(localName)),
+									[])));
+						} else {
+							this.edits.push({ ...rangeOf(path.node), text: `${localName}: ${this.holderName}.${localName}()` });
+						}
+						path.skip();
+						return;
 					}
 				}
 			}
@@ -0,0 +1,4 @@
+import { register } from "./loader/register.js";
+
+// Used as `node --import dynohot/register main.js`
+register();
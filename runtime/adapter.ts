@@ -4,8 +4,8 @@ import { ModuleStatus } from "./module.js";
 
 /**
  * This is the adapter which delegates to an underlying non-swappable module. This is used for
- * built-in modules, CommonJS modules, WASM modules (for now?), or modules which otherwise refer
- * some other opaque "Abstract Module Record".
+ * built-in modules, CommonJS modules [unless `commonjs` is enabled], ignored modules, or modules
+ * which otherwise refer some other opaque "Abstract Module Record".
  * @internal
  */
 export class AdapterModuleController implements AbstractModuleController, AbstractModuleInstance {
@@ -3,7 +3,7 @@
 // - https://github.com/tc39/proposal-compartments/blob/master/1-static-analysis.md
 
 /** @internal */
-export type BindingEntry = ImportNameEntry | ImportStarEntry | ExportIndirectEntry | ExportIndirectStarEntry | ExportStarEntry;
+export type BindingEntry = ImportNameEntry | ImportStarEntry | ImportDeferEntry | ImportSourceEntry | ExportIndirectEntry | ExportIndirectStarEntry | ExportStarEntry;
 
 /** @internal */
 export enum BindingType {
@@ -11,6 +11,10 @@ export enum BindingType {
 	import = "import",
 	// import * as ns from "...";
 	importStar = "importStar",
+	// import defer * as ns from "...";
+	importDefer = "importDefer",
+	// import source id from "...";
+	importSource = "importSource",
 	// export { id } from "...";
 	indirectExport = "indirectExport",
 	// export * as namespace from "...";
@@ -32,6 +36,18 @@ export interface ImportStarEntry {
 	readonly as: string;
 }
 
+/** @internal */
+export interface ImportDeferEntry {
+	readonly type: BindingType.importDefer;
+	readonly as: string;
+}
+
+/** @internal */
+export interface ImportSourceEntry {
+	readonly type: BindingType.importSource;
+	readonly as: string;
+}
+
 /** @internal */
 export interface ExportIndirectEntry {
 	readonly type: BindingType.indirectExport;
@@ -54,4 +70,9 @@ export interface ExportStarEntry {
 export interface ModuleRequestEntry {
 	readonly specifier: string;
 	readonly bindings: readonly BindingEntry[];
+	/**
+	 * The request only imports bindings, which aren't read while the module is evaluated. Updates
+	 * to the requested module are implicitly accepted. See: `Config["acceptLazyImports"]`
+	 */
+	readonly lazy?: boolean;
 }
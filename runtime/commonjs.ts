@@ -0,0 +1,73 @@
+import * as fs from "node:fs";
+import { createRequire } from "node:module";
+import { fileURLToPath } from "node:url";
+import Fn from "dynohot/functional";
+
+// Only accessed when CommonJS reloading is enabled, since jest's module environment has no `require`
+const requireCache = () => createRequire(import.meta.url).cache;
+
+// `require.cache` is keyed by real path
+function filenameOf(url: string) {
+	const filename = fileURLToPath(url);
+	try {
+		return fs.realpathSync(filename);
+	} catch {
+		return filename;
+	}
+}
+
+const isNodeModules = (filename: string) => /[/\\]node_modules[/\\]/.test(filename);
+
+/**
+ * Returns the filenames of all CommonJS modules which were loaded by the CommonJS module at `url`,
+ * not including itself or anything in `node_modules`.
+ * @internal
+ */
+export function commonjsDependencies(url: string) {
+	const cache = requireCache();
+	const filename = filenameOf(url);
+	const dependencies = new Set<string>();
+	const visit = (module: NodeJS.Module) => {
+		for (const child of module.children) {
+			if (child.filename !== filename && !isNodeModules(child.filename) && !dependencies.has(child.filename)) {
+				dependencies.add(child.filename);
+				visit(child);
+			}
+		}
+	};
+	const module = cache[filename];
+	if (module !== undefined) {
+		visit(module);
+	}
+	return dependencies;
+}
+
+/**
+ * Removes a CommonJS module and every CommonJS module which depends on it from `require.cache`, so
+ * that they are executed again the next time they are imported. Returns the filenames of the
+ * evicted modules, which may include the modules of other controllers.
+ * @internal
+ */
+export function evictCommonJS(url: string) {
+	const cache = requireCache();
+	const dependents = new Map<string, string[]>();
+	for (const module of Fn.filter(Object.values(cache))) {
+		for (const child of module.children) {
+			const list = dependents.get(child.filename) ?? [];
+			list.push(module.filename);
+			dependents.set(child.filename, list);
+		}
+	}
+	const evicted = new Set<string>();
+	const evict = (filename: string) => {
+		if (cache[filename] !== undefined) {
+			delete cache[filename];
+			evicted.add(filename);
+			for (const dependent of dependents.get(filename) ?? []) {
+				evict(dependent);
+			}
+		}
+	};
+	evict(filenameOf(url));
+	return evicted;
+}
@@ -1,10 +1,14 @@
 import type { BindingEntry, ExportIndirectEntry, ExportIndirectStarEntry, ExportStarEntry } from "./binding.js";
 import type { LoadedModuleRequestEntry, ModuleBody, ModuleDeclaration } from "./declaration.js";
-import type { AbstractModuleController, ModuleNamespace } from "./module.js";
+import type { Data } from "./hot.js";
+import type { AbstractModuleController, ModuleNamespace, SelectModuleInstance } from "./module.js";
+import type { LogLevel, WatcherMode } from "dynohot/loader/config";
 import type { Format } from "dynohot/node-loader";
 import * as assert from "node:assert/strict";
+import { pathToFileURL } from "node:url";
 import Fn from "dynohot/functional";
 import { BindingType } from "./binding.js";
+import { commonjsDependencies, evictCommonJS } from "./commonjs.js";
 import { dispose, isAccepted, isAcceptedSelf, isDeclined, isInvalidated, prune, tryAccept, tryAcceptSelf } from "./hot.js";
 import { ReloadableModuleInstance } from "./instance.js";
 import { ModuleStatus } from "./module.js";
@@ -12,14 +16,30 @@ import { makeAcquireVisitIndex, makeTraversalState, traverseDepthFirst } from ".
 import { debounceAsync, debounceTimer, discriminatedTypePredicate, evictModule, iterateWithRollback, makeRelative, plural } from "./utility.js";
 import { FileWatcher } from "./watcher.js";
 
+/**
+ * Options forwarded from the loader thread. See: `LoaderParameters`
+ * @internal
+ */
+export interface RuntimeOptions {
+	readonly debounce?: number | undefined;
+	readonly logLevel?: LogLevel | undefined;
+	readonly softRestart?: boolean | undefined;
+	readonly transactional?: boolean | undefined;
+	readonly watcher?: WatcherMode | undefined;
+}
+
 /** @internal */
-export function makeAcquire(dynamicImport: DynamicImport) {
+export function makeAcquire(dynamicImport: DynamicImport, options: RuntimeOptions = {}) {
 	const application: Application = {
+		changed: new Set(),
 		dynamicImport,
+		modules: new Map(),
+		options,
 		requestUpdate: defaultRequestUpdate,
 		requestUpdateResult: defaultRequestUpdateResult,
+		updateQueued: false,
 	};
-	const modules = new Map<string, ReloadableModuleController>();
+	const { modules } = application;
 	return function acquire(url: string) {
 		return modules.get(url) ?? function() {
 			const module = new ReloadableModuleController(application, url);
@@ -29,8 +49,10 @@ export function makeAcquire(dynamicImport: DynamicImport) {
 	};
 }
 
-function defaultRequestUpdate() {
-	console.error("[hot] Update requested before fully loaded.");
+// Updates which are requested before `main` binds `requestUpdate` are queued, and requested again
+// by `main` once it has.
+function defaultRequestUpdate(this: Application) {
+	this.updateQueued = true;
 	return Promise.resolve();
 }
 
@@ -40,12 +62,20 @@ async function defaultRequestUpdateResult(): Promise<never> {
 }
 
 interface Application {
+	/** Controllers which may have new code or be invalidated, see `requestUpdate` */
+	changed: Set<ReloadableModuleController>;
 	dynamicImport: DynamicImport;
+	/** All controllers, by URL */
+	modules: Map<string, ReloadableModuleController>;
+	options: RuntimeOptions;
 	requestUpdate: () => Promise<void>;
 	requestUpdateResult: () => Promise<UpdateResult>;
+	/** Set when `defaultRequestUpdate` is invoked */
+	updateQueued: boolean;
 }
 
-type DynamicImport = (specifier: string, importAssertions?: Record<string, string>) => Promise<ModuleNamespace>;
+// Import attributes are forwarded to the loader in the `hot:import` URL, so the host import is plain
+type DynamicImport = (specifier: string) => Promise<ModuleNamespace>;
 
 /** @internal */
 export enum UpdateStatus {
@@ -56,6 +86,7 @@ export enum UpdateStatus {
 	fatalError = "fatalError",
 	unaccepted = "unaccepted",
 	unacceptedEvaluation = "unacceptedEvaluation",
+	restarted = "restarted",
 }
 
 type UpdateResult =
@@ -65,7 +96,8 @@ type UpdateResult =
 	UpdateUnaccepted |
 	UpdateEvaluationError |
 	UpdateFatalError |
-	UpdateLinkError;
+	UpdateLinkError |
+	UpdateRestarted;
 
 interface UpdateSuccess {
 	type: UpdateStatus.success | UpdateStatus.unacceptedEvaluation;
@@ -98,6 +130,14 @@ interface UpdateFatalError {
 	error: unknown;
 }
 
+interface UpdateRestarted {
+	type: UpdateStatus.restarted;
+	/** The update which couldn't be applied */
+	cause: UpdateDeclined | UpdateUnaccepted | UpdateSuccess | UpdateFatalError;
+	evaluationError?: { error: unknown } | undefined;
+	stats: () => UpdateStats;
+}
+
 interface UpdateStats {
 	duration: number;
 	loads: number;
@@ -110,7 +150,7 @@ interface InvalidationChain {
 	next: readonly InvalidationChain[] | undefined | null;
 }
 
-function logUpdate(update: UpdateResult) {
+function logUpdate(update: UpdateResult, logLevel: LogLevel) {
 	if (update === undefined) {
 		return;
 	}
@@ -143,6 +183,9 @@ function logUpdate(update: UpdateResult) {
 		}
 
 		case UpdateStatus.success: {
+			if (logLevel !== "info") {
+				break;
+			}
 			const { duration, loads, reevaluations } = update.stats();
 			const ms = Math.round(duration);
 			console.error(`[hot] Loaded ${loads} new ${plural("module", loads)}, reevaluated ${reevaluations} existing ${plural("module", reevaluations)} in ${ms}ms.`);
@@ -182,7 +225,52 @@ function logUpdate(update: UpdateResult) {
 			break;
 		}
 
+		case UpdateStatus.restarted: {
+			logUpdate(update.cause, logLevel);
+			if (update.evaluationError === undefined) {
+				const { duration, loads } = update.stats();
+				const ms = Math.round(duration);
+				console.error(`[hot] Restarted the application, loaded ${loads} ${plural("module", loads)} in ${ms}ms.`);
+			} else {
+				console.error("[hot] Caught evaluation error during restart:", update.evaluationError.error);
+			}
+			break;
+		}
+
+	}
+}
+
+// With `transactional`, `import.meta.hot.data` is filled in only after the update commits. A
+// module which reads it while the new instance is evaluating would silently get nothing, and
+// create a new resource instead of taking over the previous one, so it is warned once.
+function makeTransactionalData(url: string, select: () => ReloadableModuleInstance | undefined): Data {
+	let warned = false;
+	return new Proxy({}, {
+		get: (target, key, receiver) => {
+			const status = select()?.state.status;
+			if (
+				!warned && typeof key === "string" &&
+				(status === ModuleStatus.evaluating || status === ModuleStatus.evaluatingAsync)
+			) {
+				warned = true;
+				console.error(`[hot] Warning: ${makeRelative(url)} read \`import.meta.hot.data\` while it was evaluated. With \`transactional\` it is empty until the update has been applied.`);
+			}
+			return Reflect.get(target, key, receiver);
+		},
+	});
+}
+
+// A module request is evaluated along with its importer unless every binding is a deferred namespace
+// or module source.
+function requestPhase(request: LoadedModuleRequestEntry) {
+	if (request.bindings.length > 0) {
+		if (request.bindings.every(binding => binding.type === BindingType.importSource)) {
+			return "source";
+		} else if (request.bindings.every(binding => binding.type === BindingType.importDefer || binding.type === BindingType.importSource)) {
+			return "defer";
+		}
 	}
+	return "evaluation";
 }
 
 const acquireVisitIndex = makeAcquireVisitIndex();
@@ -205,44 +293,116 @@ export class ReloadableModuleController implements AbstractModuleController {
 	private traversal = makeTraversalState();
 	private visitIndex = 0;
 	private version = 0;
+	private readonly watcher: FileWatcher;
+	/** CommonJS modules required by this module, which are watched in addition to `url` */
+	private readonly dependencyWatchers = new Map<string, (() => void) | undefined>();
+	/** Controllers which this module has imported. This is the forward side of `dependents`. */
+	private readonly dependencies = new Set<ReloadableModuleController>();
+	/**
+	 * Reverse-dependency index. These are the controllers which have imported this module,
+	 * statically or dynamically, since it was last pruned. Edges are never removed when a module
+	 * drops an import, so this may include controllers which no longer import this module.
+	 */
+	private readonly dependents = new Set<ReloadableModuleController>();
 
 	constructor(
 		public readonly application: Application,
 		public readonly url: string,
 	) {
-		const watcher = new FileWatcher();
-		watcher.watch(this.url, () => {
-			void (async () => {
-				const instance = this.staging ?? this.current;
-				assert.ok(instance !== undefined);
-				const { importAssertions } = instance.declaration;
-				const params = new URLSearchParams([
-					[ "url", this.url ],
-					[ "version", String(++this.version) ],
-					[ "format", instance.declaration.format ],
-					...Fn.map(
-						Object.entries(importAssertions),
-						([ key, value ]) => [ "with", String(new URLSearchParams([ [ key, value ] ])) ]),
-				] as Iterable<[ string, string ]>);
-				try {
-					await import(`hot:reload?${String(params)}`);
-				} catch (error) {
-					console.log(error);
-					return;
-				}
-				void this.application.requestUpdate();
-			})();
-		});
+		this.watcher = new FileWatcher(application.options.watcher);
+		this.watcher.watch(this.url, () => this.reload());
+	}
+
+	private reload() {
+		void (async () => {
+			const instance = this.staging ?? this.current;
+			assert.ok(instance !== undefined);
+			const { format, importAttributes } = instance.declaration;
+			if (format === "commonjs") {
+				this.evictCommonJS(this.url);
+			}
+			const params = new URLSearchParams([
+				[ "url", this.url ],
+				[ "version", String(++this.version) ],
+				[ "format", format ],
+				...Fn.map(
+					Object.entries(importAttributes),
+					([ key, value ]) => [ "with", String(new URLSearchParams([ [ key, value ] ])) ]),
+			] as Iterable<[ string, string ]>);
+			try {
+				await this.application.dynamicImport(`hot:reload?${String(params)}`);
+			} catch (error) {
+				console.log(error);
+				return;
+			}
+			void this.application.requestUpdate();
+		})();
+	}
+
+	// A CommonJS module is reloaded when any of the CommonJS modules it requires change, since those
+	// aren't visible to the module graph.
+	private watchCommonJSDependencies() {
+		const dependencies = commonjsDependencies(this.url);
+		for (const [ filename, unwatch ] of this.dependencyWatchers) {
+			if (!dependencies.has(filename)) {
+				unwatch?.();
+				this.dependencyWatchers.delete(filename);
+			}
+		}
+		for (const filename of dependencies) {
+			if (!this.dependencyWatchers.has(filename)) {
+				const url = String(pathToFileURL(filename));
+				this.dependencyWatchers.set(filename, this.watcher.watch(url, () => {
+					this.evictCommonJS(url);
+					this.reload();
+				}));
+			}
+		}
+	}
+
+	// A CommonJS module may be shared by more than one reloadable CommonJS module. Each of them is
+	// evicted along with it, so each of their controllers must be reloaded too or their namespace
+	// would go stale.
+	private evictCommonJS(url: string) {
+		for (const filename of evictCommonJS(url)) {
+			const controller = this.application.modules.get(String(pathToFileURL(filename)));
+			if (controller !== undefined && controller !== this) {
+				controller.reload();
+			}
+		}
 	}
 
 	async main(this: ReloadableModuleController) {
 		// Bind `requestUpdate` to the root module
 		assert.equal(this.application.requestUpdate, defaultRequestUpdate);
-		this.application.requestUpdate = debounceTimer(100, debounceAsync(async () => {
+		const { debounce = 100, logLevel = "info", softRestart = false } = this.application.options;
+		const requestUpdate = async () => {
 			const update = await this.requestUpdate();
-			logUpdate(update);
+			if (softRestart && update !== undefined) {
+				switch (update.type) {
+					case UpdateStatus.declined:
+					case UpdateStatus.fatalError:
+					case UpdateStatus.unaccepted:
+					case UpdateStatus.unacceptedEvaluation:
+						return this.restart(update);
+					default:
+				}
+			}
+			return update;
+		};
+		this.application.requestUpdate = debounceTimer(debounce, debounceAsync(async () => {
+			const update = await requestUpdate();
+			logUpdate(update, logLevel);
 		}));
-		this.application.requestUpdateResult = () => this.requestUpdate();
+		this.application.requestUpdateResult = requestUpdate;
+
+		// Run the update which was queued before `main`. Updates requested from now on are
+		// dispatched even while the main module is still evaluating a top-level `await`, which may
+		// never settle.
+		if (this.application.updateQueued) {
+			this.application.updateQueued = false;
+			void this.application.requestUpdate();
+		}
 
 		// Dispatch the module
 		await this.dispatch();
@@ -252,6 +412,7 @@ export class ReloadableModuleController implements AbstractModuleController {
 		if (this.current === undefined) {
 			// Place `current` from `staging` if it's not set up, instantiate all reloadable
 			// modules, and perform link.
+			const instantiated: ReloadableModuleController[] = [];
 			traverseDepthFirst(
 				this,
 				node => node.traversal,
@@ -261,6 +422,8 @@ export class ReloadableModuleController implements AbstractModuleController {
 						const staging = node.select(controller => controller.staging);
 						node.current = staging;
 						node.current.instantiate();
+						node.index(node.current);
+						instantiated.push(node);
 					}
 					return node.iterate();
 				},
@@ -283,24 +446,95 @@ export class ReloadableModuleController implements AbstractModuleController {
 						}
 					}
 				});
+			for (const node of instantiated) {
+				if (node.current === node.staging) {
+					node.staging = undefined;
+				}
+			}
+			// Async module bodies are ready to run their synchronous part without delay, as they
+			// would be natively.
+			await Promise.all(Fn.map(instantiated, node => node.select().ready()));
+		}
 
-			// Evaluate
-			await traverseDepthFirst(
-				this,
-				node => node.traversal,
-				(node, traversal) => {
-					node.traversal = traversal;
-					return node.iterate();
-				},
-				async nodes => {
-					for (const node of nodes) {
-						const current = node.select();
-						if (current === node.staging) {
-							node.staging = undefined;
-						}
-						await current.evaluate();
-					}
-				});
+		// Evaluate. This module may already be linked, but not evaluated, if it was previously
+		// imported with `import defer` or `import source`. Independent async dependencies are
+		// evaluated concurrently.
+		if (this.select().state.status === ModuleStatus.linked) {
+			await this.select().evaluate();
+		}
+	}
+
+	/**
+	 * Soft restart, see `Config["softRestart"]`. Every module is disposed and pruned, importers
+	 * before their dependencies, and then this module is dispatched again with the latest code.
+	 */
+	private async restart(this: ReloadableModuleController, cause: UpdateRestarted["cause"]): Promise<UpdateRestarted> {
+		const timeStarted = performance.now();
+		// Cycles are joined with dependencies first, so the reverse of this list is the order in
+		// which modules are torn down. Modules which failed to link have no `current`.
+		const controllers: ReloadableModuleController[] = [];
+		traverseDepthFirst(
+			this,
+			node => node.traversal,
+			(node, traversal) => {
+				node.traversal = traversal;
+				return node.current === undefined ? [] : node.iterateWithDynamics();
+			},
+			(cycleNodes): undefined => {
+				controllers.push(...cycleNodes);
+			});
+		for (const controller of Fn.reverse(controllers)) {
+			const { current } = controller;
+			if (current !== undefined) {
+				try {
+					await prune(current);
+				} catch (error) {
+					console.error(`[hot] Caught error in module '${controller.url}' during prune:`);
+					console.error(error);
+				}
+				controller.staging ??= current.clone();
+				controller.current = undefined;
+				controller.unindex();
+			}
+		}
+
+		// Dispatch from the top. If this fails then the next update restarts again.
+		this.fatalError = undefined;
+		let evaluationError: { error: unknown } | undefined;
+		try {
+			await this.dispatch();
+		} catch (error) {
+			evaluationError = { error };
+			this.fatalError = { type: UpdateStatus.fatalError, error };
+		}
+		const loads = Array.from(this.traverse(node => node.current === undefined ? [] : node.iterateWithDynamics())).length + 1;
+		const duration = performance.now() - timeStarted;
+		return {
+			type: UpdateStatus.restarted,
+			cause,
+			evaluationError,
+			stats: () => ({ duration, loads, reevaluations: 0 }),
+		};
+	}
+
+	/**
+	 * Synchronously evaluate a module which was imported with `import defer`, and its unevaluated
+	 * dependencies. This is invoked by the deferred namespace object, which may be accessed during
+	 * another traversal, so it doesn't use `traverseDepthFirst`.
+	 */
+	evaluateDeferred(select = ReloadableModuleController.selectCurrent, seen = new Set<ReloadableModuleController>()) {
+		seen.add(this);
+		for (const child of this.iterateEvaluation(select)) {
+			if (!seen.has(child)) {
+				child.evaluateDeferred(select, seen);
+			}
+		}
+		const instance = this.select(select);
+		if (instance.state.status === ModuleStatus.linked) {
+			if (instance.declaration.body.async) {
+				throw new TypeError(`Deferred module '${this.url}' uses top-level await and cannot be evaluated synchronously`);
+			}
+			void instance.evaluate(select);
 		}
 	}
 
@@ -310,8 +544,9 @@ export class ReloadableModuleController implements AbstractModuleController {
 		meta: ImportMeta | null,
 		usesDynamicImport: boolean,
 		format: Format,
-		importAssertions: Record<string, string>,
+		importAttributes: Record<string, string>,
 		loadedModules: readonly LoadedModuleRequestEntry[],
+		moduleSource?: object,
 	) {
 		if (evictModule) {
 			// Experimental module eviction
@@ -319,7 +554,7 @@ export class ReloadableModuleController implements AbstractModuleController {
 				const backingModuleParams = new URLSearchParams([
 					[ "url", this.url ],
 					[ "version", String(this.version) ],
-					...Object.entries(importAssertions).map(
+					...Object.entries(importAttributes).map(
 						([ key, value ]) => [ "with", String(new URLSearchParams([ [ key, value ] ])) ]),
 				] as Iterable<[ string, string ]>);
 				const backingModuleURL = `hot:module?${String(backingModuleParams)}`;
@@ -330,9 +565,10 @@ export class ReloadableModuleController implements AbstractModuleController {
 			body,
 			meta,
 			format,
-			importAssertions,
+			importAttributes,
 			usesDynamicImport,
 			loadedModules,
+			moduleSource,
 			indirectExportEntries: new Map(function*() {
 				const predicate = Fn.somePredicate<BindingEntry, ExportIndirectEntry | ExportIndirectStarEntry>([
 					discriminatedTypePredicate(BindingType.indirectExport),
@@ -355,6 +591,10 @@ export class ReloadableModuleController implements AbstractModuleController {
 			}()),
 		};
 		this.staging = new ReloadableModuleInstance(this, declaration);
+		this.application.changed.add(this);
+		if (format === "commonjs") {
+			this.watchCommonJSDependencies();
+		}
 	}
 
 	select(select = ReloadableModuleController.selectCurrent) {
@@ -363,6 +603,37 @@ export class ReloadableModuleController implements AbstractModuleController {
 		return instance;
 	}
 
+	/** Invoked by `import.meta.hot.invalidate()` */
+	invalidate() {
+		this.application.changed.add(this);
+		void this.application.requestUpdate();
+	}
+
+	/** Record an import of `controller` in the reverse-dependency index */
+	addDependency(controller: ReloadableModuleController) {
+		this.dependencies.add(controller);
+		controller.dependents.add(this);
+	}
+
+	private index(instance: ReloadableModuleInstance) {
+		for (const controller of instance.iterateDependencies()) {
+			this.addDependency(controller);
+		}
+	}
+
+	// Remove all edges to and from a pruned module. If it is imported again then the importer will
+	// have new code, and the edge is recorded when that code is dispatched.
+	private unindex() {
+		for (const controller of this.dependencies) {
+			controller.dependents.delete(this);
+		}
+		for (const controller of this.dependents) {
+			controller.dependencies.delete(this);
+		}
+		this.dependencies.clear();
+		this.dependents.clear();
+	}
+
 	private *iterate(select = ReloadableModuleController.selectCurrent) {
 		for (const child of this.select(select).declaration.loadedModules) {
 			const controller = child.controller();
@@ -372,6 +643,28 @@ export class ReloadableModuleController implements AbstractModuleController {
 		}
 	}
 
+	// Dependencies which are evaluated before this module. Modules imported only with `import
+	// defer` or `import source` are linked, but not evaluated. A deferred module which has an async
+	// dependency is evaluated eagerly, since the deferred namespace can't wait for it.
+	*iterateEvaluation(select = ReloadableModuleController.selectCurrent) {
+		for (const request of this.select(select).declaration.loadedModules) {
+			const controller = request.controller();
+			if (controller.reloadable) {
+				const phase = requestPhase(request);
+				if (phase === "evaluation" || (phase === "defer" && controller.hasAsyncDependency(select))) {
+					yield controller;
+				}
+			}
+		}
+	}
+
+	private hasAsyncDependency(select: SelectModuleInstance, seen = new Set<ReloadableModuleController>()): boolean {
+		seen.add(this);
+		return this.select(select).declaration.body.async || Fn.some(
+			this.iterate(select),
+			child => !seen.has(child) && child.hasAsyncDependency(select, seen));
+	}
+
 	private *iterateWithDynamics(
 		select = ReloadableModuleController.selectCurrent,
 		selectDynamic = ReloadableModuleController.selectCurrent,
@@ -408,6 +701,33 @@ export class ReloadableModuleController implements AbstractModuleController {
 			return this.fatalError;
 		}
 
+		// Only the controllers which have new code or were invalidated, and their ancestors in the
+		// reverse-dependency index, can be affected by this update. Every other module would be
+		// visited without any effect, so the traversals below don't descend into them.
+		const { changed } = this.application;
+		for (const controller of changed) {
+			if (
+				controller.staging === undefined &&
+				(controller.current === undefined || !isInvalidated(controller.current))
+			) {
+				changed.delete(controller);
+			}
+		}
+		const affected = new Set<ReloadableModuleController>();
+		(function visit(controllers: Iterable<ReloadableModuleController>) {
+			for (const controller of controllers) {
+				if (!affected.has(controller)) {
+					affected.add(controller);
+					visit(controller.dependents);
+				}
+			}
+		})(changed);
+		if (!affected.has(this)) {
+			return undefined;
+		}
+		const iterateAffected = (controllers: Iterable<ReloadableModuleController>) =>
+			Fn.filter(controllers, controller => affected.has(controller));
+
 		// Set up statistics tracking
 		let loads = 0;
 		let reevaluations = 0;
@@ -436,9 +756,9 @@ export class ReloadableModuleController implements AbstractModuleController {
 				node.traversal = traversal;
 				node.pending = node.staging ?? node.select();
 				node.previous = node.current;
-				return node.iterateWithDynamics(
+				return iterateAffected(node.iterateWithDynamics(
 					controller => controller.pending,
-					controller => controller.previous ?? controller.pending);
+					controller => controller.previous ?? controller.pending));
 			},
 			(cycleNodes, forwardResults: readonly DryRunResult[]): DryRunResult => {
 				let needsDispatch = false;
@@ -448,7 +768,12 @@ export class ReloadableModuleController implements AbstractModuleController {
 					nextControllers.push(node);
 					const nodeHasNewCode = node.previous !== node.pending;
 					hasNewCode ||= nodeHasNewCode;
-					if (
+					if (node.current?.state.status === ModuleStatus.linked) {
+						// Not evaluated yet [`import defer` or `import source`], so it is relinked or
+						// replaced without invalidating anything.
+						needsDispatch ||= nodeHasNewCode || forwardUpdates.length > 0;
+						return false;
+					} else if (
 						nodeHasNewCode ||
 						node.current === undefined ||
 						isInvalidated(node.current) ||
@@ -552,9 +877,9 @@ export class ReloadableModuleController implements AbstractModuleController {
 					node => node.traversal,
 					(node, traversal) => {
 						node.traversal = traversal;
-						return node.iterateWithDynamics(
+						return iterateAffected(node.iterateWithDynamics(
 							controller => controller.pending,
-							controller => controller.previous ?? controller.pending);
+							controller => controller.previous ?? controller.pending));
 					},
 					(cycleNodes, forwardResults: readonly boolean[]) => {
 						let hasUpdate = Fn.some(forwardResults);
@@ -576,7 +901,8 @@ export class ReloadableModuleController implements AbstractModuleController {
 							}
 							for (const node of cycleNodes) {
 								const temporary = node.select(controller => controller.temporary);
-								temporary.link(controller => controller.temporary ?? controller.pending);
+								// Dependencies which weren't visited are unaffected, and link to `current`
+								temporary.link(controller => controller.temporary ?? controller.pending ?? controller.current);
 							}
 						}
 						return hasUpdate;
@@ -597,24 +923,199 @@ export class ReloadableModuleController implements AbstractModuleController {
 		// Collect previous controllers
 		const previousControllers = Array.from(this.traverse());
 
+		// With `transactional`, instances which were replaced are disposed only after the whole update
+		// has evaluated. Until then they may be restored.
+		const { transactional = false } = this.application.options;
+		const replaced: {
+			node: ReloadableModuleController;
+			previous: ReloadableModuleInstance | undefined;
+			next: ReloadableModuleInstance;
+			/** Filled in by the dispose handlers of `previous`, when it had been evaluated */
+			data: Data | undefined;
+		}[] = [];
+		// Accept handlers which were invoked, these are invoked again if the update is rolled back
+		const accepted: { node: ReloadableModuleController; updates: readonly ReloadableModuleController[] }[] = [];
+
 		// Dispatch link & evaluate
 		let dispatchLinkErrorType: UpdateStatus.fatalError | undefined;
 		try {
 			interface RunResult {
+				cycleNodes: readonly ReloadableModuleController[];
 				forwardResults: readonly RunResult[];
+				/** Modules which will be invalidated, judged by the presence of their accept handlers */
 				invalidated: readonly ReloadableModuleController[];
 				treeDidUpdate: boolean;
+				/** `accept` components are relinked, and `evaluate` components are replaced */
+				dispatch: "accept" | "evaluate" | undefined;
+				/** Waits for the accept handlers of a dependency before it is dispatched */
+				deferred: boolean;
+				/** Resolves to the modules which were invalidated, once the component has been dispatched */
+				finished: Promise<readonly ReloadableModuleController[]> | undefined;
 			}
+			const dispatched: RunResult[] = [];
+
+			// Dispose the replaced instances and instantiate their replacements
+			const replace = async (cycleNodes: readonly ReloadableModuleController[]) => {
+				for (const node of cycleNodes) {
+					const data = await async function() {
+						try {
+							if (node.current === undefined) {
+								return undefined;
+							} else if (transactional) {
+								return makeTransactionalData(node.url, () => node.current);
+							}
+							return await dispose(node.current);
+						} catch (error) {
+							console.error(`[hot] Caught error in module '${node.url}' during dispose:`);
+							console.error(error);
+							dispatchLinkErrorType = UpdateStatus.fatalError;
+							throw error;
+						}
+					}();
+					const previous = node.current;
+					const pending = node.pending ?? node.select();
+					if (node.current === pending) {
+						node.current = node.current.clone();
+					} else {
+						node.current = pending;
+					}
+					node.current.instantiate(data);
+					if (transactional) {
+						replaced.push({ node, previous, next: node.current, data });
+					}
+				}
+				for (const node of cycleNodes) {
+					node.select().link();
+				}
+			};
+
+			// Evaluation is started synchronously, so the components are evaluated as one graph by
+			// `16.2.1.5.3 Evaluate()`. Async dependencies are awaited by `[[PendingAsyncDependencies]]`
+			// and independent async modules run concurrently. The returned promise resolves after
+			// the self-accept handlers.
+			const evaluate = (cycleNodes: readonly ReloadableModuleController[]) => {
+				let evaluation: Promise<unknown>;
+				try {
+					evaluation = Promise.all(Array.from(cycleNodes, node => {
+						const current = node.select();
+						if (node.previous !== undefined && current.declaration === node.previous.declaration) {
+							++reevaluations;
+						} else {
+							++loads;
+						}
+						return current.evaluate();
+					}));
+				} catch (error) {
+					evaluation = Promise.reject(error);
+				}
+				return evaluation.then(
+					async () => {
+						for (const node of cycleNodes) {
+							const current = node.select();
+							node.index(current);
+							node.pending = undefined;
+							if (current === node.staging) {
+								node.staging = undefined;
+							}
+						}
+						// Try self-accept. With `transactional` the handlers are invoked when the update
+						// commits, so only their presence is checked.
+						const invalidated: ReloadableModuleController[] = [];
+						for (const node of cycleNodes) {
+							if (node.previous !== undefined) {
+								if (transactional) {
+									if (!isAcceptedSelf(node.previous)) {
+										invalidated.push(node);
+									}
+									continue;
+								}
+								const current = node.select();
+								const namespace = () => current.moduleNamespace()();
+								if (!await tryAcceptSelf(node.previous, namespace)) {
+									invalidated.push(node);
+								}
+							}
+						}
+						return invalidated;
+					},
+					(error: unknown) => {
+						// nb: Evaluation of any member evaluates the whole cycle, so an error can be
+						// recorded on members which weren't evaluated by this call. An importer of a
+						// failed dependency records its error too, so new code is staged again from a
+						// clone which hasn't been evaluated.
+						for (const node of cycleNodes) {
+							const current = node.select();
+							if (current.state.status === ModuleStatus.evaluated && current.state.evaluationError !== undefined) {
+								node.current = node.previous;
+								if (current === node.staging) {
+									node.staging = current.clone();
+								}
+							}
+						}
+						throw error;
+					});
+			};
+
+			// Relink modules which accept their updated dependencies. If an accept handler fails then
+			// the component is replaced.
+			const accept = async (cycleNodes: readonly ReloadableModuleController[], forwardUpdates: readonly ReloadableModuleController[]) => {
+				for (const node of cycleNodes) {
+					const current = node.select();
+					current.relink();
+					if (!await tryAccept(current, forwardUpdates)) {
+						await replace(cycleNodes);
+						await Promise.all(Fn.map(cycleNodes, node => node.select().ready()));
+						return evaluate(cycleNodes);
+					}
+					if (transactional) {
+						accepted.push({ node, updates: forwardUpdates });
+					}
+				}
+				return [];
+			};
+
+			// Instantiate & link. Modules which accept their dependencies are decided by the presence
+			// of their handlers, as in the precheck traversal.
 			const result = await traverseDepthFirst(
 				this,
 				node => node.traversal,
 				(node, traversal) => {
 					node.traversal = traversal;
-					return node.iterateWithDynamics(
+					return iterateAffected(node.iterateWithDynamics(
 						controller => controller.pending,
-						controller => controller.previous ?? node.pending);
+						controller => controller.previous ?? node.pending));
 				},
 				async (cycleNodes, forwardResults: readonly RunResult[]): Promise<RunResult> => {
+					// Modules which haven't been evaluated are replaced or relinked, and will be
+					// evaluated when they are first accessed.
+					if (cycleNodes.every(node => node.current?.state.status === ModuleStatus.linked)) {
+						for (const node of cycleNodes) {
+							const pending = node.select(controller => controller.pending);
+							if (node.current !== pending) {
+								node.select().unlink();
+								if (transactional) {
+									replaced.push({ node, previous: node.current, next: pending, data: undefined });
+								}
+								node.current = pending;
+								node.current.instantiate();
+								node.index(node.current);
+								++loads;
+							}
+						}
+						for (const node of cycleNodes) {
+							const current = node.select();
+							if (current.state.status === ModuleStatus.linking) {
+								current.link();
+							} else {
+								current.relink();
+							}
+							node.pending = undefined;
+							if (current === node.staging) {
+								node.staging = undefined;
+							}
+						}
+						return { cycleNodes, forwardResults, invalidated: [], treeDidUpdate: true, dispatch: undefined, deferred: false, finished: undefined };
+					}
 					let needsUpdate = false;
 					// Check update due to new code
 					for (const node of cycleNodes) {
@@ -623,86 +1124,31 @@ export class ReloadableModuleController implements AbstractModuleController {
 							break;
 						}
 					}
-					// Relink and check update due to invalidated dependencies
+					// Check update due to invalidated dependencies
 					const treeDidUpdate = Fn.some(forwardResults, result => result.treeDidUpdate);
 					if (treeDidUpdate && !needsUpdate) {
 						const forwardUpdates = Array.from(Fn.concat(Fn.map(forwardResults, result => result.invalidated)));
-						for (const node of cycleNodes) {
-							const current = node.select();
-							current.relink();
-							if (!await tryAccept(node.select(), forwardUpdates)) {
-								needsUpdate = true;
-								break;
-							}
-						}
+						needsUpdate = !cycleNodes.every(node => isAccepted(node.select(), forwardUpdates));
 					}
 					if (!needsUpdate) {
 						for (const node of cycleNodes) {
 							assert.equal(node.current, node.pending);
 							node.pending = undefined;
 						}
-						return { forwardResults, treeDidUpdate, invalidated: [] };
-					}
-					// These nodes need to be replaced.
-					// 1) Instantiate
-					for (const node of cycleNodes) {
-						const pending = node.select(controller => controller.pending);
-						const data = await async function() {
-							try {
-								return node.current === undefined ? undefined : await dispose(node.current);
-							} catch (error) {
-								console.error(`[hot] Caught error in module '${node.url}' during dispose:`);
-								console.error(error);
-								dispatchLinkErrorType = UpdateStatus.fatalError;
-								throw error;
-							}
-						}();
-						if (node.current === pending) {
-							node.current = node.current.clone();
-						} else {
-							node.current = pending;
-						}
-						node.current.instantiate(data);
-					}
-					// 2) Link
-					for (const node of cycleNodes) {
-						node.select().link();
-					}
-					// 3) Evaluate
-					const withRollback = iterateWithRollback(cycleNodes, nodes => {
-						for (const node of nodes) {
-							const current = node.select();
-							assert.ok(current.state.status === ModuleStatus.evaluated);
-							if (current.state.evaluationError !== undefined) {
-								node.current = node.previous;
-							}
-						}
-					});
-					for (const node of withRollback) {
-						const current = node.select();
-						if (node.previous !== undefined && current.declaration === node.previous.declaration) {
-							++reevaluations;
-						} else {
-							++loads;
-						}
-						await current.evaluate();
-						node.pending = undefined;
-						if (current === node.staging) {
-							node.staging = undefined;
+						if (!treeDidUpdate) {
+							return { cycleNodes, forwardResults, invalidated: [], treeDidUpdate, dispatch: undefined, deferred: false, finished: undefined };
 						}
+						const result: RunResult = { cycleNodes, forwardResults, invalidated: [], treeDidUpdate, dispatch: "accept", deferred: true, finished: undefined };
+						dispatched.push(result);
+						return result;
 					}
-					// Try self-accept
-					const invalidated: ReloadableModuleController[] = [];
-					for (const node of cycleNodes) {
-						if (node.previous !== undefined) {
-							const current = node.select();
-							const namespace = () => current.moduleNamespace()();
-							if (!await tryAcceptSelf(node.previous, namespace)) {
-								invalidated.push(node);
-							}
-						}
-					}
-					return { forwardResults, invalidated, treeDidUpdate: true };
+					// These nodes need to be replaced.
+					await replace(cycleNodes);
+					const invalidated = cycleNodes.filter(node => node.previous !== undefined && !isAcceptedSelf(node.previous));
+					const deferred = Fn.some(forwardResults, result => result.deferred);
+					const result: RunResult = { cycleNodes, forwardResults, invalidated, treeDidUpdate: true, dispatch: "evaluate", deferred, finished: undefined };
+					dispatched.push(result);
+					return result;
 				});
 
 			if (!result.treeDidUpdate) {
@@ -710,7 +1156,98 @@ export class ReloadableModuleController implements AbstractModuleController {
 				return undefined;
 			}
 
+			// Async module bodies are ready to run their synchronous part without delay, as they
+			// would be natively.
+			await Promise.all(Fn.transform(dispatched, function*(result) {
+				if (result.dispatch === "evaluate") {
+					yield* Fn.map(result.cycleNodes, node => node.select().ready());
+				}
+			}));
+
+			// Evaluate. Components are dispatched in the order they were joined, so dependencies
+			// begin before their importers. Components which wait for an accept handler are
+			// relinked first, in case that dependency was replaced.
+			for (const result of dispatched) {
+				const { cycleNodes, forwardResults } = result;
+				if (result.dispatch === "accept") {
+					result.finished = Promise.all(Fn.map(forwardResults, result => result.finished ?? []))
+						.then(forwardUpdates => accept(cycleNodes, forwardUpdates.flat()));
+				} else if (result.deferred) {
+					result.finished = Promise.all(Fn.transform(forwardResults, function*(result) {
+						if (result.deferred) {
+							yield result.finished;
+						}
+					})).then(() => {
+						for (const node of cycleNodes) {
+							node.select().relink();
+						}
+						return evaluate(cycleNodes);
+					});
+				} else {
+					result.finished = evaluate(cycleNodes);
+				}
+			}
+			// Wait for every component to settle before reporting the first error, since a rollback
+			// can't happen while other modules are still evaluating.
+			const settled = await Promise.allSettled(Fn.map(dispatched, result => result.finished));
+			for (const result of settled) {
+				if (result.status === "rejected") {
+					throw result.reason;
+				}
+			}
+
+			// Commit the transaction. The previous instances are disposed in the order they were
+			// replaced, and then they accept their replacements.
+			for (const { node, previous, data } of replaced) {
+				if (previous !== undefined && data !== undefined) {
+					try {
+						Object.assign(data, await dispose(previous));
+					} catch (error) {
+						console.error(`[hot] Caught error in module '${node.url}' during dispose:`);
+						console.error(error);
+						return this.fatalError = { type: UpdateStatus.fatalError, error };
+					}
+				}
+			}
+			for (const { previous, next, data } of replaced) {
+				if (previous !== undefined && data !== undefined) {
+					await tryAcceptSelf(previous, () => next.moduleNamespace()());
+				}
+			}
+
 		} catch (error) {
+			if (transactional) {
+				// Restore every replaced instance. New instances which were evaluated are disposed,
+				// and unevaluated instances which were unlinked are linked again.
+				const unlinked: ReloadableModuleInstance[] = [];
+				for (const { node, previous, next } of Fn.reverse(replaced)) {
+					if (next.state.status === ModuleStatus.evaluated) {
+						try {
+							await dispose(next);
+						} catch (error) {
+							console.error(`[hot] Caught error in module '${node.url}' during dispose:`);
+							console.error(error);
+							dispatchLinkErrorType = UpdateStatus.fatalError;
+						}
+					} else {
+						next.unlink();
+					}
+					node.current = previous;
+					if (previous?.state.status === ModuleStatus.new) {
+						previous.instantiate();
+						unlinked.push(previous);
+					}
+					// The new code is dispatched again in the next update
+					if (next.declaration !== previous?.declaration && (node.staging === undefined || node.staging === next)) {
+						node.staging = next.clone();
+						this.application.changed.add(node);
+					}
+				}
+				for (const instance of unlinked) {
+					instance.link();
+				}
+			}
+
 			// Re-link everything to ensure consistent internal state. Also, throw away pending
 			// instances.
 			traverseDepthFirst(
@@ -730,6 +1267,10 @@ export class ReloadableModuleController implements AbstractModuleController {
 						current.relink();
 					}
 				});
+			// Accept handlers which received new code are invoked again with the restored modules
+			for (const { node, updates } of accepted) {
+				await tryAccept(node.select(), updates);
+			}
 			if (dispatchLinkErrorType === undefined) {
 				return { type: UpdateStatus.evaluationFailure, error, stats };
 			} else {
@@ -760,6 +1301,8 @@ export class ReloadableModuleController implements AbstractModuleController {
 					controller.staging = current.clone();
 					controller.current = undefined;
 					controller.previous = undefined;
+					controller.unindex();
+					this.application.changed.add(controller);
 				}
 			}
 		}
@@ -7,7 +7,7 @@ export interface ModuleDeclaration {
 	readonly body: ModuleBody;
 	readonly meta: ImportMeta | null;
 	readonly format: Format;
-	readonly importAssertions: Record<string, string>;
+	readonly importAttributes: Record<string, string>;
 	readonly usesDynamicImport: boolean;
 	readonly indirectExportEntries: ReadonlyMap<string, {
 		readonly moduleRequest: LoadedModuleRequestEntry;
@@ -18,16 +18,34 @@ export interface ModuleDeclaration {
 		readonly binding: ExportStarEntry;
 	}[];
 	readonly loadedModules: readonly LoadedModuleRequestEntry[];
+	/** Result of `GetModuleSource()`, only WebAssembly modules provide one */
+	readonly moduleSource: object | undefined;
 }
 
 /** @internal */
 export type ModuleBody = ModuleBodySync | ModuleBodyAsync;
 
-type DynamicImport = (specifier: string, importAssertions?: Record<string, string>) => Promise<ModuleNamespace>;
+/**
+ * The optional second parameter to `import()`. `assert` is the deprecated spelling of `with`, which
+ * is still used by older versions of nodejs.
+ * @internal
+ */
+export interface ImportCallOptions {
+	readonly with?: Record<string, string>;
+	readonly assert?: Record<string, string>;
+}
+
+type DynamicImport = (specifier: string, options?: ImportCallOptions) => Promise<ModuleNamespace>;
+
+/**
+ * Invoked by modules compiled with `bindingSlots` after an exported binding is initialized or
+ * assigned, with the name of the export. It returns its second argument.
+ */
+type Update = <Type>(exportName: string, value?: Type) => Type | undefined;
 
 interface ModuleBodySync {
 	async: false;
-	execute: (meta: ImportMeta | null, dynamicImport: DynamicImport) => Generator<ModuleBodyScope, void, ModuleExports>;
+	execute: (meta: ImportMeta | null, dynamicImport: DynamicImport, update: Update) => Generator<ModuleBodyScope, void, ModuleExports>;
 }
 
 interface ModuleBodyAsync {
@@ -36,12 +54,13 @@ interface ModuleBodyAsync {
 		meta: ImportMeta | null,
 		dynamicImport: DynamicImport,
 		accepts: (scope: ModuleBodyScope) => void,
+		update: Update,
 	) => AsyncGenerator<ModuleBodyScope, void, ModuleExports>;
 }
 
 /** @internal */
 export type ModuleBodyScope = [
-	replace: (this: void, exports: ModuleExports) => void,
+	replace: (this: void, exports: ModuleExports, localName?: string) => void,
 	/** [[LocalExportEntries]] */
 	exports: ModuleExports,
 ];
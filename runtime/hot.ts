@@ -133,6 +133,9 @@ export class Hot<Data extends Record<keyof any, unknown> = Record<keyof any, unk
 						return [];
 					}
 				}));
+				for (const module of instance.iterateLazyDependencies()) {
+					acceptedModules.add(module);
+				}
 				return modules.every(module => !imports.has(module) || acceptedModules.has(module));
 			}
 		};
@@ -173,7 +176,9 @@ export class Hot<Data extends Record<keyof any, unknown> = Record<keyof any, unk
 						};
 					}
 				})));
-				const acceptedModules = new Set(Fn.transform(acceptedHandlers, handler => handler.modules));
+				const acceptedModules = new Set(Fn.concat(
+					Fn.transform(acceptedHandlers, handler => handler.modules),
+					instance.iterateLazyDependencies()));
 				if (!modules.every(module => !imports.has(module) || acceptedModules.has(module))) {
 					return false;
 				}
@@ -297,7 +302,7 @@ export class Hot<Data extends Record<keyof any, unknown> = Record<keyof any, unk
 	 */
 	invalidate() {
 		this.#invalidated = true;
-		void this.#module.application.requestUpdate();
+		this.#module.invalidate();
 	}
 
 	/**
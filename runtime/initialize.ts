@@ -13,6 +13,13 @@ export function initializeEnvironment<Request extends ModuleRequestEntry, Resolu
 	 * @returns `null` is unresolvable, `undefined` is ambiguous.
 	 */
 	resolveExport: (module: Request, exportName: string) => Resolution | null | undefined,
+	/** Return the deferred module namespace, which evaluates the module on first access */
+	deferredNamespace: (module: Request) => Resolution,
+	/**
+	 * Return the module source object.
+	 * @returns `undefined` if the module does not provide one.
+	 */
+	moduleSource: (module: Request) => Resolution | undefined,
 ) {
 	// 1. For each ExportEntry Record e of module.[[IndirectExportEntries]], do
 	//   a. Let resolution be module.ResolveExport(e.[[ExportName]]).
@@ -41,6 +48,29 @@ export function initializeEnvironment<Request extends ModuleRequestEntry, Resolu
 					break;
 				}
 
+				// [Deferring Module Evaluation] If in.[[Phase]] is defer, the binding is a deferred
+				// namespace object which evaluates the module on first access.
+				case BindingType.importDefer: {
+					const resolution = deferredNamespace(importedModule);
+					resolvedBindings.push([ binding.as, resolution ]);
+					break;
+				}
+
+				// [Source Phase Imports] If in.[[ImportName]] is source, then
+				case BindingType.importSource: {
+					// i. Let moduleSourceObject be ? importedModule.GetModuleSource().
+					const resolution = moduleSource(importedModule);
+					if (resolution === undefined) {
+						throw Object.assign(
+							new SyntaxError(`Source phase import object is not available for the requested module '${importedModule.specifier}'`),
+							{ url });
+					}
+					// ii. Perform ! env.CreateImmutableBinding(in.[[LocalName]], true).
+					// iii. Perform ! env.InitializeBinding(in.[[LocalName]], moduleSourceObject).
+					resolvedBindings.push([ binding.as, resolution ]);
+					break;
+				}
+
 				// c. Else,
 				case BindingType.import: {
 					// i. Let resolution be importedModule.ResolveExport(in.[[ImportName]]).
@@ -1,6 +1,6 @@
-import type { ModuleBodyScope, ModuleDeclaration } from "./declaration.js";
+import type { ImportCallOptions, ModuleBodyScope, ModuleDeclaration } from "./declaration.js";
 import type { Data } from "./hot.js";
-import type { AbstractModuleInstance, ModuleController, ModuleExports, Resolution, SelectModuleInstance } from "./module.js";
+import type { AbstractModuleInstance, ModuleController, ModuleExports, Resolution, ResolvedBinding, SelectModuleInstance } from "./module.js";
 import type { WithResolvers } from "./utility.js";
 import * as assert from "node:assert/strict";
 import Fn from "dynohot/functional";
@@ -34,20 +34,18 @@ interface ModuleStateLinked {
 	readonly status: ModuleStatus.linked;
 	readonly continuation: ModuleContinuation;
 	readonly environment: ModuleEnvironment;
-	readonly imports: ModuleExports;
-	readonly completion: WithResolvers<void>;
 }
 
 interface ModuleStateEvaluating {
 	readonly status: ModuleStatus.evaluating;
+	readonly continuation: ModuleContinuation;
 	readonly environment: ModuleEnvironment;
-	readonly completion: WithResolvers<void>;
 }
 
 interface ModuleStateEvaluatingAsync {
 	readonly status: ModuleStatus.evaluatingAsync;
+	readonly continuation: ModuleContinuation;
 	readonly environment: ModuleEnvironment;
-	readonly completion: WithResolvers<void>;
 }
 
 interface ModuleStateEvaluated {
@@ -59,7 +57,7 @@ interface ModuleStateEvaluated {
 interface ModuleEnvironment {
 	readonly exports: ModuleExports;
 	readonly hot: Hot | null;
-	readonly replace: (this: void, imports: ModuleExports) => void;
+	readonly replace: (this: void, imports: ModuleExports, localName?: string) => void;
 }
 
 type ModuleContinuation =
@@ -75,9 +73,31 @@ interface ModuleContinuationAsync {
 	readonly async: true;
 	readonly iterator: AsyncIterator<unknown, void, ModuleExports>;
 	readonly previous: Promise<IteratorResult<unknown>>;
+	/** Set when `previous` settles, after which the body can be resumed synchronously */
+	ready: boolean;
+}
+
+// Fields which 16.2.1.5 adds to Cyclic Module Records for `Evaluate()`. They are assigned when
+// evaluation of the instance begins.
+interface ModuleEvaluation {
+	readonly dfsIndex: number;
+	dfsAncestorIndex: number;
+	cycleRoot: ReloadableModuleInstance;
+	/** Order in which the instance began async evaluation, or `undefined` if it is not async */
+	asyncEvaluation: number | undefined;
+	readonly asyncParentModules: ReloadableModuleInstance[];
+	pendingAsyncDependencies: number;
+	topLevelCapability: WithResolvers<void> | undefined;
 }
 
 const acquireLinkIndex = makeAcquireVisitIndex();
+let asyncEvaluationOrder = 0;
+
+// Instances which import each exported binding, by the resolved getter, and the function which
+// assigns it again. Only instances which have started evaluation are listed. A re-export resolves
+// to the getter of the module which declares the binding, so that module's `update` reaches every
+// importer directly.
+const importers = new WeakMap<ResolvedBinding, Map<ReloadableModuleInstance, () => void>>();
 
 /** @internal */
 export class ReloadableModuleInstance implements AbstractModuleInstance {
@@ -89,7 +109,11 @@ export class ReloadableModuleInstance implements AbstractModuleInstance {
 		readonly specifier: string;
 	}[] = [];
 
+	private evaluation: ModuleEvaluation | undefined;
 	private namespace: (() => Record<string, unknown>) | undefined;
+	private deferredNamespaceObject: (() => Record<string, unknown>) | undefined;
+	/** Bindings which are passed to the module body */
+	private imports: ModuleExports | undefined;
 
 	constructor(
 		private readonly controller: ReloadableModuleController,
@@ -118,17 +142,19 @@ export class ReloadableModuleInstance implements AbstractModuleInstance {
 			if (this.declaration.body.async) {
 				let scope: ModuleBodyScope | undefined;
 				const accept = (value: ModuleBodyScope) => { scope = value; };
-				const iterator = this.declaration.body.execute(importMeta, dynamicImport, accept);
+				const iterator = this.declaration.body.execute(importMeta, dynamicImport, accept, this.update);
 				const result = iterator.next();
 				assert.ok(scope !== undefined);
 				const [ replace, exports ] = scope;
+				const continuation: ModuleContinuationAsync = { async: true, iterator, previous: result, ready: false };
+				result.then(() => { continuation.ready = true; }, () => {});
 				this.state = {
 					status: ModuleStatus.linking,
-					continuation: { async: true, iterator, previous: result },
+					continuation,
 					environment: { exports, hot, replace },
 				};
 			} else {
-				const iterator = this.declaration.body.execute(importMeta, dynamicImport);
+				const iterator = this.declaration.body.execute(importMeta, dynamicImport, this.update);
 				const result = iterator.next();
 				assert.equal(result.done, false);
 				const [ replace, exports ] = result.value;
@@ -164,16 +190,21 @@ export class ReloadableModuleInstance implements AbstractModuleInstance {
 						module.state.status === ModuleStatus.evaluated ||
 						module.state.status === ModuleStatus.evaluatingAsync);
 					return module.resolveExport(exportName, select);
+				},
+				entry => {
+					const module = entry.controller().select(select);
+					return module.reloadable ? module.deferredNamespace(select) : module.moduleNamespace();
+				},
+				entry => {
+					const module = entry.controller().select(select);
+					return module.reloadable ? module.moduleSource() : undefined;
 				});
+			this.track(Object.fromEntries(bindings));
 			this.state = {
 				status: ModuleStatus.linked,
 				continuation: this.state.continuation,
 				environment: this.state.environment,
-				imports: Object.fromEntries(bindings),
-				// eslint-disable-next-line @typescript-eslint/no-invalid-void-type
-				completion: withResolvers<void>(),
 			};
-			this.state.completion.promise.catch(() => {});
 		}
 	}
 
@@ -188,6 +219,7 @@ export class ReloadableModuleInstance implements AbstractModuleInstance {
 			entry => {
 				const module = entry.controller().select(select);
 				assert.ok(
+					module.state.status === ModuleStatus.linked ||
 					module.state.status === ModuleStatus.evaluated ||
 					module.state.status === ModuleStatus.evaluatingAsync);
 				return module.moduleNamespace(select);
@@ -199,12 +231,81 @@ export class ReloadableModuleInstance implements AbstractModuleInstance {
 					module.state.status === ModuleStatus.evaluated ||
 					module.state.status === ModuleStatus.evaluatingAsync);
 				return module.resolveExport(exportName, select);
+			},
+			entry => {
+				const module = entry.controller().select(select);
+				return module.reloadable ? module.deferredNamespace(select) : module.moduleNamespace();
+			},
+			entry => {
+				const module = entry.controller().select(select);
+				return module.reloadable ? module.moduleSource() : undefined;
 			});
+		const imports = Object.fromEntries(bindings);
+		this.track(imports);
+		// Modules which haven't been evaluated yet, which happens to modules imported with `import
+		// defer` or `import source`, receive the new bindings when they are.
 		if (this.state.status !== ModuleStatus.linked) {
-			this.state.environment.replace(Object.fromEntries(bindings));
+			this.state.environment.replace(imports);
+		}
+	}
+
+	/** Records `imports`, and assigns them again when the instances which export them notify */
+	private track(imports: ModuleExports) {
+		if (this.imports !== undefined) {
+			for (const resolution of Object.values(this.imports)) {
+				importers.get(resolution)?.delete(this);
+			}
+		}
+		this.imports = imports;
+		// Modules which haven't started evaluation receive their bindings when they do
+		if (this.evaluation !== undefined) {
+			this.listen();
+		}
+	}
+
+	// Registers the assignment of each imported binding with `importers`, which `update` invokes
+	private listen() {
+		assert.ok(this.state.status !== ModuleStatus.new && this.imports !== undefined);
+		const { imports, state: { environment: { replace } } } = this;
+		const localNamesByResolution = new Map<ResolvedBinding, string[]>();
+		for (const [ localName, resolution ] of Object.entries(imports)) {
+			const localNames = localNamesByResolution.get(resolution);
+			if (localNames === undefined) {
+				localNamesByResolution.set(resolution, [ localName ]);
+			} else {
+				localNames.push(localName);
+			}
+		}
+		for (const [ resolution, localNames ] of localNamesByResolution) {
+			let instances = importers.get(resolution);
+			if (instances === undefined) {
+				instances = new Map();
+				importers.set(resolution, instances);
+			}
+			instances.set(this, () => {
+				for (const localName of localNames) {
+					replace(imports, localName);
+				}
+			});
 		}
 	}
 
+	/**
+	 * Passed to the module body, which invokes it when an exported binding is initialized or
+	 * assigned. Only the local names which hold that binding are assigned again, in each importer.
+	 */
+	private readonly update = <Type>(exportName: string, value?: Type) => {
+		const { state } = this;
+		const resolution = state.status === ModuleStatus.new ? undefined : state.environment.exports[exportName];
+		const instances = resolution === undefined ? undefined : importers.get(resolution);
+		if (instances !== undefined) {
+			for (const assign of instances.values()) {
+				assign();
+			}
+		}
+		return value;
+	};
+
 	/**
 	 * Reset a module instance from "linked" or "linking" to "new". Returns `true` if the module is
 	 * now in "new" state, false otherwise.
@@ -229,82 +330,227 @@ export class ReloadableModuleInstance implements AbstractModuleInstance {
 		}
 	}
 
-	evaluate() {
-		switch (this.state.status) {
-			case ModuleStatus.linked: {
-				const { completion, continuation, imports } = this.state;
-				if (continuation.async) {
-					return (async () => {
-						assert.equal(this.state.status, ModuleStatus.linked);
-						const promise = (async () => {
-							// nb: This `await` serves two purposes:
-							// - It ensures that the `previous` promise is awaited before the `next`
-							//   promise.
-							// - It also ensures that `state` is set by yielding for a least a
-							//   microtask.
-							await continuation.previous;
-							const next = await continuation.iterator.next(imports);
-							assert.ok(next.done);
-						})();
-						promise.then(completion.resolve, completion.reject);
-						this.state = {
-							status: ModuleStatus.evaluatingAsync,
-							environment: this.state.environment,
-							completion,
-						};
-						try {
-							await promise;
-							this.state = {
-								status: ModuleStatus.evaluated,
-								environment: this.state.environment,
-							};
-						} catch (error) {
-							this.state = {
-								status: ModuleStatus.evaluated,
-								environment: this.state.environment,
-								evaluationError: { error },
-							};
-							throw error;
-						}
-					})();
-				} else {
-					try {
-						this.state = {
-							status: ModuleStatus.evaluating,
-							environment: this.state.environment,
-							completion,
-						};
-						const next = continuation.iterator.next(imports);
-						assert.ok(next.done);
-						completion.resolve();
-						this.state = {
-							status: ModuleStatus.evaluated,
-							environment: this.state.environment,
-						};
-					} catch (error) {
-						completion.reject(error);
-						this.state = {
-							status: ModuleStatus.evaluated,
-							environment: this.state.environment,
-							evaluationError: { error },
-						};
-						throw error;
-					}
+	/**
+	 * Resolves when the body of an async module can be resumed synchronously. Evaluation works
+	 * without this, but the synchronous part of the body would run a tick late.
+	 */
+	async ready() {
+		if (this.state.status === ModuleStatus.linked && this.state.continuation.async) {
+			await this.state.continuation.previous;
+		}
+	}
+
+	// 16.2.1.5.3 Evaluate ( )
+	// Returns `undefined`, or throws, when evaluation completes synchronously.
+	evaluate(select?: SelectModuleInstance): Promise<void> | undefined {
+		assert.ok(
+			this.state.status === ModuleStatus.linked ||
+			this.state.status === ModuleStatus.evaluatingAsync ||
+			this.state.status === ModuleStatus.evaluated);
+		const module = this.state.status === ModuleStatus.linked ? this : this.evaluation?.cycleRoot;
+		assert.ok(module !== undefined);
+		if (this.state.status !== ModuleStatus.linked) {
+			const capability = module.evaluation?.topLevelCapability;
+			if (capability !== undefined) {
+				return capability.promise;
+			}
+		}
+		const stack: ReloadableModuleInstance[] = [];
+		try {
+			module.innerModuleEvaluation(stack, 0, select);
+		} catch (error) {
+			for (const instance of stack) {
+				assert.equal(instance.state.status, ModuleStatus.evaluating);
+				instance.state = {
+					status: ModuleStatus.evaluated,
+					environment: instance.state.environment,
+					evaluationError: { error },
+				};
+			}
+			throw error;
+		}
+		assert.ok(module.evaluation !== undefined);
+		if (module.evaluation.asyncEvaluation === undefined) {
+			return;
+		}
+		// eslint-disable-next-line @typescript-eslint/no-invalid-void-type
+		const capability = module.evaluation.topLevelCapability = withResolvers<void>();
+		capability.promise.catch(() => {});
+		return capability.promise;
+	}
+
+	// 16.2.1.5.3.1 InnerModuleEvaluation ( module, stack, index )
+	private innerModuleEvaluation(stack: ReloadableModuleInstance[], index: number, select: SelectModuleInstance | undefined) {
+		if (this.state.status === ModuleStatus.evaluatingAsync || this.state.status === ModuleStatus.evaluated) {
+			if (this.state.status === ModuleStatus.evaluated && this.state.evaluationError) {
+				throw this.state.evaluationError.error;
+			}
+			return index;
+		} else if (this.state.status === ModuleStatus.evaluating) {
+			return index;
+		}
+		assert.equal(this.state.status, ModuleStatus.linked);
+		this.state = {
+			status: ModuleStatus.evaluating,
+			continuation: this.state.continuation,
+			environment: this.state.environment,
+		};
+		const evaluation: ModuleEvaluation = this.evaluation = {
+			dfsIndex: index,
+			dfsAncestorIndex: index,
+			cycleRoot: this,
+			asyncEvaluation: undefined,
+			asyncParentModules: [],
+			pendingAsyncDependencies: 0,
+			topLevelCapability: undefined,
+		};
+		this.listen();
+		++index;
+		stack.push(this);
+		for (const controller of this.controller.iterateEvaluation(select)) {
+			let requiredModule = controller.select(select);
+			index = requiredModule.innerModuleEvaluation(stack, index, select);
+			assert.ok(requiredModule.evaluation !== undefined);
+			if (requiredModule.state.status === ModuleStatus.evaluating) {
+				evaluation.dfsAncestorIndex = Math.min(evaluation.dfsAncestorIndex, requiredModule.evaluation.dfsAncestorIndex);
+			} else {
+				requiredModule = requiredModule.evaluation.cycleRoot;
+				if (requiredModule.state.status === ModuleStatus.evaluated && requiredModule.state.evaluationError) {
+					throw requiredModule.state.evaluationError.error;
 				}
-				return;
 			}
+			assert.ok(requiredModule.evaluation !== undefined);
+			if (requiredModule.evaluation.asyncEvaluation !== undefined) {
+				++evaluation.pendingAsyncDependencies;
+				requiredModule.evaluation.asyncParentModules.push(this);
+			}
+		}
+		if (evaluation.pendingAsyncDependencies > 0 || this.declaration.body.async) {
+			evaluation.asyncEvaluation = ++asyncEvaluationOrder;
+			if (evaluation.pendingAsyncDependencies === 0) {
+				this.executeAsyncModule();
+			}
+		} else {
+			this.executeModule();
+		}
+		if (evaluation.dfsAncestorIndex === evaluation.dfsIndex) {
+			let requiredModule: ReloadableModuleInstance | undefined;
+			do {
+				requiredModule = stack.pop();
+				assert.ok(requiredModule?.evaluation !== undefined);
+				assert.equal(requiredModule.state.status, ModuleStatus.evaluating);
+				requiredModule.evaluation.cycleRoot = this;
+				const { continuation, environment } = requiredModule.state;
+				requiredModule.state = requiredModule.evaluation.asyncEvaluation === undefined
+					? { status: ModuleStatus.evaluated, environment }
+					: { status: ModuleStatus.evaluatingAsync, continuation, environment };
+			} while (requiredModule !== this);
+		}
+		return index;
+	}
+
+	// Runs the remainder of a synchronous module body
+	private executeModule() {
+		assert.ok(this.state.status === ModuleStatus.evaluating || this.state.status === ModuleStatus.evaluatingAsync);
+		const { continuation } = this.state;
+		assert.ok(!continuation.async && this.imports !== undefined);
+		const next = continuation.iterator.next(this.imports);
+		assert.ok(next.done);
+	}
+
+	// 16.2.1.5.3.2 ExecuteAsyncModule ( module )
+	private executeAsyncModule() {
+		assert.ok(this.state.status === ModuleStatus.evaluating || this.state.status === ModuleStatus.evaluatingAsync);
+		const { continuation } = this.state;
+		const imports = this.imports;
+		assert.ok(continuation.async && imports !== undefined);
+		const next = async () => {
+			const result = await continuation.iterator.next(imports);
+			assert.ok(result.done);
+		};
+		// The synchronous part of the body runs now if the iterator has reached its first `yield`
+		const promise = continuation.ready ? next() : continuation.previous.then(next);
+		promise.then(
+			() => this.asyncModuleExecutionFulfilled(),
+			(error: unknown) => this.asyncModuleExecutionRejected(error));
+	}
 
-			case ModuleStatus.evaluated:
-				if (this.state.evaluationError) {
-					throw this.state.evaluationError.error;
+	// 16.2.1.5.3.3 GatherAvailableAncestors ( module, execList )
+	private gatherAvailableAncestors(execList: ReloadableModuleInstance[]) {
+		assert.ok(this.evaluation !== undefined);
+		for (const module of this.evaluation.asyncParentModules) {
+			assert.ok(module.evaluation !== undefined);
+			const { cycleRoot } = module.evaluation;
+			if (
+				!execList.includes(module) &&
+				!(cycleRoot.state.status === ModuleStatus.evaluated && cycleRoot.state.evaluationError)
+			) {
+				assert.equal(module.state.status, ModuleStatus.evaluatingAsync);
+				assert.ok(module.evaluation.pendingAsyncDependencies > 0);
+				if (--module.evaluation.pendingAsyncDependencies === 0) {
+					execList.push(module);
+					if (!module.declaration.body.async) {
+						module.gatherAvailableAncestors(execList);
+					}
 				}
-				return;
+			}
+		}
+	}
 
-			case ModuleStatus.evaluatingAsync:
-				return this.state.completion.promise;
+	// 16.2.1.5.3.4 AsyncModuleExecutionFulfilled ( module )
+	private asyncModuleExecutionFulfilled() {
+		if (this.state.status === ModuleStatus.evaluated) {
+			assert.ok(this.state.evaluationError !== undefined);
+			return;
+		}
+		this.finishAsyncEvaluation();
+		const execList: ReloadableModuleInstance[] = [];
+		this.gatherAvailableAncestors(execList);
+		execList.sort((left, right) => left.evaluation!.asyncEvaluation! - right.evaluation!.asyncEvaluation!);
+		for (const module of execList) {
+			if (module.state.status === ModuleStatus.evaluated) {
+				assert.ok(module.state.evaluationError !== undefined);
+			} else if (module.declaration.body.async) {
+				module.executeAsyncModule();
+			} else {
+				try {
+					module.executeModule();
+				} catch (error) {
+					module.asyncModuleExecutionRejected(error);
+					continue;
+				}
+				module.finishAsyncEvaluation();
+			}
+		}
+	}
 
-			default: assert.fail();
+	// 16.2.1.5.3.5 AsyncModuleExecutionRejected ( module, error )
+	private asyncModuleExecutionRejected(error: unknown) {
+		if (this.state.status === ModuleStatus.evaluated) {
+			assert.ok(this.state.evaluationError !== undefined);
+			return;
 		}
+		assert.ok(this.state.status === ModuleStatus.evaluatingAsync && this.evaluation !== undefined);
+		this.state = {
+			status: ModuleStatus.evaluated,
+			environment: this.state.environment,
+			evaluationError: { error },
+		};
+		this.evaluation.asyncEvaluation = undefined;
+		for (const module of this.evaluation.asyncParentModules) {
+			module.asyncModuleExecutionRejected(error);
+		}
+		this.evaluation.topLevelCapability?.reject(error);
+	}
+
+	private finishAsyncEvaluation() {
+		assert.ok(this.state.status === ModuleStatus.evaluatingAsync && this.evaluation !== undefined);
+		this.state = {
+			status: ModuleStatus.evaluated,
+			environment: this.state.environment,
+		};
+		this.evaluation.asyncEvaluation = undefined;
+		this.evaluation.topLevelCapability?.resolve();
 	}
 
 	lookupSpecifier(specifier: string) {
@@ -330,23 +576,37 @@ export class ReloadableModuleInstance implements AbstractModuleInstance {
 		yield* Fn.map(this.dynamicImports, instance => instance.controller);
 	}
 
-	private async dynamicImport(specifier: string, importAssertions?: Record<string, string>) {
+	/** Dependencies which are implicitly accepted, see `ModuleRequestEntry["lazy"]` */
+	*iterateLazyDependencies() {
+		for (const entry of this.declaration.loadedModules) {
+			if (entry.lazy === true) {
+				const controller = entry.controller();
+				if (controller.reloadable) {
+					yield controller;
+				}
+			}
+		}
+	}
+
+	private async dynamicImport(specifier: string, options?: ImportCallOptions) {
 		assert.ok(
 			this.state.status === ModuleStatus.evaluating ||
 			this.state.status === ModuleStatus.evaluatingAsync ||
 			this.state.status === ModuleStatus.evaluated);
+		const importAttributes = options?.with ?? options?.assert ?? {};
 		const specifierParams = new URLSearchParams([
 			[ "parent", this.controller.url ],
 			[ "specifier", specifier ],
 			...Fn.map(
-				Object.entries(importAssertions ?? {}),
+				Object.entries(importAttributes),
 				([ key, value ]) => [ "with", String(new URLSearchParams([ [ key, value ] ])) ]),
 		] as Iterable<[ string, string ]>);
-		const { default: acquire } = await this.controller.application.dynamicImport(`hot:import?${String(specifierParams)}`, importAssertions);
+		const { default: acquire } = await this.controller.application.dynamicImport(`hot:import?${String(specifierParams)}`);
 		const controller: ModuleController = (acquire as any)();
 		didDynamicImport(this, controller);
 		if (controller.reloadable) {
 			this.dynamicImports.push({ controller, specifier });
+			this.controller.addDependency(controller);
 			await controller.dispatch();
 			return controller.select().moduleNamespace()();
 		} else {
@@ -415,6 +675,55 @@ export class ReloadableModuleInstance implements AbstractModuleInstance {
 		return this.namespace;
 	}
 
+	// [Deferring Module Evaluation] GetModuleNamespace ( module, defer )
+	// The deferred namespace is an exotic object which evaluates the module, and its dependencies,
+	// the first time one of its exports is observed. Symbols and "then" don't trigger evaluation,
+	// so the namespace can be passed around and checked for thenability.
+	deferredNamespace(select?: SelectModuleInstance) {
+		if (!this.deferredNamespaceObject) {
+			const namespace = this.moduleNamespace(select)();
+			const evaluate = (key: string | symbol) => {
+				if (this.state.status === ModuleStatus.linked && typeof key !== "symbol" && key !== "then") {
+					this.controller.evaluateDeferred(select);
+				}
+			};
+			const deferredNamespace = new Proxy(namespace, {
+				defineProperty: (target, key, attributes) => {
+					evaluate(key);
+					return Reflect.defineProperty(target, key, attributes);
+				},
+				deleteProperty: (target, key) => {
+					evaluate(key);
+					return Reflect.deleteProperty(target, key);
+				},
+				get: (target, key) => {
+					evaluate(key);
+					return Reflect.get(target, key);
+				},
+				getOwnPropertyDescriptor: (target, key) => {
+					evaluate(key);
+					return Reflect.getOwnPropertyDescriptor(target, key);
+				},
+				has: (target, key) => {
+					evaluate(key);
+					return Reflect.has(target, key);
+				},
+				ownKeys: target => {
+					evaluate("");
+					return Reflect.ownKeys(target);
+				},
+			});
+			this.deferredNamespaceObject = () => deferredNamespace;
+		}
+		return this.deferredNamespaceObject;
+	}
+
+	// [Source Phase Imports] GetModuleSource ( )
+	moduleSource() {
+		const { moduleSource } = this.declaration;
+		return moduleSource === undefined ? undefined : () => moduleSource;
+	}
+
 	// 16.2.1.6.3 ResolveExport ( exportName [ , resolveSet ] )
 	resolveExport(exportName: string, select?: SelectModuleInstance) {
 		const [ release, linkIndex ] = acquireLinkIndex();
@@ -1,8 +1,21 @@
+import type { LogLevel, WatcherMode } from "dynohot/loader/config";
 import { AdapterModuleController } from "./adapter.js";
 import { makeAcquire } from "./controller.js";
 
+// Options are forwarded by the loader as search parameters on this module's URL
+const params = new URL(import.meta.url).searchParams;
+const debounce = params.get("debounce");
+const transactional = params.get("transactional");
+const softRestart = params.get("softRestart");
+
 /** @internal */
-export const acquire = makeAcquire((specifier, assertions) => import(specifier, assertions));
+export const acquire = makeAcquire(specifier => import(specifier), {
+	debounce: debounce === null ? undefined : Number(debounce),
+	logLevel: params.get("logLevel") as LogLevel | null ?? undefined,
+	softRestart: softRestart === null ? undefined : softRestart === "true",
+	transactional: transactional === null ? undefined : transactional === "true",
+	watcher: params.get("watcher") as WatcherMode | null ?? undefined,
+});
 
 /** @internal */
 export function adapter(url: string, namespace: Record<string, unknown>) {
@@ -61,7 +61,10 @@ const acquireVisitIndex = makeAcquireVisitIndex();
 
 /**
  * This is a generalized version of the depth-first algorithm in `16.2.1.5.2 Link()` and
- * `16.2.1.5.3 Evaluate()`. I'm not actually sure the async semantics are identical, though.
+ * `16.2.1.5.3 Evaluate()`. Async results are awaited one strongly-connected component at a time,
+ * which isn't how the specification evaluates modules. Module bodies are instead evaluated by
+ * `ReloadableModuleInstance.evaluate()`, which implements it exactly, both initially and during
+ * hot updates.
  * @internal
  */
 export function traverseDepthFirst<
@@ -1,3 +1,4 @@
+import type { WatcherMode } from "dynohot/loader/config";
 import * as fs from "node:fs";
 import * as fsPromises from "node:fs/promises";
 import { basename, dirname } from "node:path";
@@ -18,6 +19,11 @@ interface DirectoryWatcher {
 	watcher: fs.FSWatcher;
 }
 
+interface Poller {
+	callbacks: Set<() => void>;
+	listener: fs.StatsListener;
+}
+
 interface CallbacksByFile {
 	callbacks: Set<() => void>;
 	dispatch: () => Promise<void>;
@@ -25,13 +31,30 @@ interface CallbacksByFile {
 
 /** @internal */
 export class FileWatcher {
+	private readonly pollers = new Map<string, Poller>();
 	private readonly watchers = new Map<string, DirectoryWatcher>();
 
+	constructor(
+		private readonly mode: WatcherMode = "native",
+	) {}
+
 	watch(url: string, callback: () => void) {
-		if (!url.startsWith("file://")) {
+		if (!url.startsWith("file://") || this.mode === "none") {
 			return;
 		}
-		const path = fileURLToPath(url);
+		// Watch the real location of symlinked modules, for example workspace packages in
+		// `node_modules`.
+		const path = function() {
+			const path = fileURLToPath(url);
+			try {
+				return fs.realpathSync(path);
+			} catch {
+				return path;
+			}
+		}();
+		if (this.mode === "poll") {
+			return this.poll(path, callback);
+		}
 		const fileName = basename(path);
 		const directory = dirname(path);
 		// Initialize directory watcher
@@ -83,4 +106,33 @@ export class FileWatcher {
 			}
 		};
 	}
+
+	// `fs.watchFile` stats the file on an interval. This is slower but works on network and
+	// virtualized file systems where `fs.watch` doesn't deliver events.
+	private poll(path: string, callback: () => void) {
+		const poller = this.pollers.get(path) ?? (() => {
+			const callbacks = new Set<() => void>();
+			const listener: fs.StatsListener = (current, previous) => {
+				// `mtimeMs` is 0 when the file doesn't exist
+				if (current.mtimeMs !== 0 && current.mtimeMs !== previous.mtimeMs) {
+					for (const callback of callbacks) {
+						callback();
+					}
+				}
+			};
+			fs.watchFile(path, { persistent: false, interval: 250 }, listener);
+			const poller = { callbacks, listener };
+			this.pollers.set(path, poller);
+			return poller;
+		})();
+		poller.callbacks.add(callback);
+		return () => {
+			poller.callbacks.delete(callback);
+			if (poller.callbacks.size === 0) {
+				this.pollers.delete(path);
+				// Only this listener is removed, other `watchFile` listeners on the same path remain
+				fs.unwatchFile(path, poller.listener);
+			}
+		};
+	}
 }
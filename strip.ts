@@ -0,0 +1,2 @@
+// Used as a Babel plugin, i.e. `plugins: [ "dynohot/strip" ]`
+export { default } from "./loader/strip.js";